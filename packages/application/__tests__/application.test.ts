@@ -0,0 +1,258 @@
+/**
+ * Tests for the application
+ */
+
+import 'reflect-metadata';
+import { Container, injectable } from 'inversify';
+import { Container as FrameworkContainer } from '@tsvel/container';
+import { Application, BaseServiceProvider, DeferredServiceProvider } from '../src';
+
+@injectable()
+class Connection {
+  closed = false;
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+describe('Application', () => {
+  it('should load, boot and terminate', async () => {
+    const log: string[] = [];
+    class AppServiceProvider extends BaseServiceProvider {
+      register(): void {
+        this.bind('greeting', 'hello');
+      }
+
+      boot(): void {
+        log.push('boot');
+      }
+    }
+
+    const app = Application.make();
+    app.register(new AppServiceProvider(app));
+    await app.boot();
+
+    expect(app.isBooted()).toBe(true);
+    expect(app.getProviderRegistry().resolve('greeting')).toBe('hello');
+    expect(log).toEqual(['boot']);
+
+    await app.terminate();
+    expect(app.isBooted()).toBe(false);
+  });
+
+  describe('container disposal', () => {
+    it('should dispose the singletons of the default framework container on terminate', async () => {
+      const app = Application.make();
+      const container = app.getProviderRegistry().resolve<FrameworkContainer>('Container');
+      container.bind<Connection>('Connection').to(Connection).inSingletonScope();
+      const connection = container.get<Connection>('Connection');
+
+      await app.boot();
+      await app.terminate();
+
+      expect(container).toBeInstanceOf(FrameworkContainer);
+      expect(connection.closed).toBe(true);
+    });
+
+    it('should leave the singletons of a plain InversifyJS container alone', async () => {
+      const container = new Container();
+      container.bind(Connection).toSelf().inSingletonScope();
+      const connection = container.get(Connection);
+      const app = Application.make(container);
+
+      await app.boot();
+      await app.terminate();
+
+      expect(connection.closed).toBe(false);
+    });
+  });
+
+  describe('booting and booted callbacks', () => {
+    it('should run the application callbacks around the provider boot', async () => {
+      const log: string[] = [];
+      class AppServiceProvider extends BaseServiceProvider {
+        register(): void {
+          this.booting(() => {
+            log.push('provider booting');
+          });
+          this.booted(() => {
+            log.push('provider booted');
+          });
+        }
+
+        boot(): void {
+          log.push('provider boot');
+        }
+      }
+
+      const app = Application.make();
+      app.register(new AppServiceProvider(app));
+      app.booting(async booting => {
+        log.push(`app booting: ${booting.isBooted()}`);
+      });
+      app.booted(booted => {
+        log.push(`app booted: ${booted.isBooted()}`);
+      });
+      await app.boot();
+
+      expect(log).toEqual(['app booting: false', 'provider booting', 'provider boot', 'provider booted', 'app booted: true']);
+    });
+
+    it('should run booted callbacks registered after boot immediately', async () => {
+      class AppServiceProvider extends BaseServiceProvider {
+        register(): void {}
+      }
+
+      const app = Application.make();
+      const provider = new AppServiceProvider(app);
+      app.register(provider);
+      await app.boot();
+
+      const appCallback = jest.fn();
+      const providerCallback = jest.fn();
+      app.booted(appCallback);
+      provider.booted(providerCallback);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(appCallback).toHaveBeenCalledWith(app);
+      expect(providerCallback).toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle events', () => {
+    let consoleError: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+    });
+
+    it('should report failing listeners as application errors', async () => {
+      class AppServiceProvider extends BaseServiceProvider {
+        register(): void {}
+      }
+
+      const app = Application.make();
+      const listenerError = new Error('listener failed');
+      const errors: Array<{ type: string; event: string; error: unknown }> = [];
+      app.getEvents().listen('application.booted', () => {
+        throw listenerError;
+      });
+      app.getEvents().listen('provider.booted', () => {
+        throw listenerError;
+      });
+      app.getEvents().listen('application.error', payload => {
+        errors.push(payload);
+      });
+      app.register(new AppServiceProvider(app));
+      await app.boot();
+
+      expect(app.isBooted()).toBe(true);
+      expect(errors.map(({ type, event }) => ({ type, event }))).toEqual([
+        { type: 'listener', event: 'provider.booted' },
+        { type: 'listener', event: 'application.booted' },
+      ]);
+      expect(errors[0].error).toBeInstanceOf(Error);
+      expect(consoleError).toHaveBeenCalledWith(`Error in 'application.booted' listener:`, expect.any(Error));
+      expect(app.getStats().errorCount).toBe(1);
+    });
+
+    it('should only log failing application error listeners', async () => {
+      const app = Application.make();
+      const listener = jest.fn(() => {
+        throw new Error('listener failed');
+      });
+      app.getEvents().listen('application.booted', () => {
+        throw new Error('listener failed');
+      });
+      app.getEvents().listen('application.error', listener);
+      await app.boot();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(`Error in 'application.error' listener:`, expect.any(Error));
+    });
+  });
+
+  describe('deferred providers', () => {
+    const createProvider = (log: string[]) =>
+      class MailServiceProvider extends DeferredServiceProvider {
+        readonly provides = ['mailer'];
+
+        async register(): Promise<void> {
+          await Promise.resolve();
+          this.bind('mailer', 'smtp');
+          this.booted(() => {
+            log.push('booted callback');
+          });
+        }
+
+        async boot(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          log.push('boot');
+        }
+      };
+
+    it('should boot a provider loaded after boot with its callbacks and events', async () => {
+      const log: string[] = [];
+      const app = Application.make();
+      app.getEvents().listen('provider.*', (payload, event) => {
+        log.push(`${event} ${payload.provider}`);
+      });
+      app.register(createProvider(log));
+      await app.boot();
+
+      expect(log).toEqual([]);
+      await expect(app.getAsync('mailer')).resolves.toBe('smtp');
+      expect(log).toEqual([
+        'provider.registering MailServiceProvider',
+        'provider.registered MailServiceProvider',
+        'provider.booting MailServiceProvider',
+        'boot',
+        'booted callback',
+        'provider.booted MailServiceProvider',
+      ]);
+      expect(app.getProviders().map(provider => provider.constructor.name)).toEqual(['MailServiceProvider']);
+    });
+
+    it('should only register a provider loaded before boot', async () => {
+      const log: string[] = [];
+      const app = Application.make();
+      app.register(createProvider(log));
+
+      await expect(app.getAsync('mailer')).resolves.toBe('smtp');
+      expect(log).toEqual([]);
+
+      await app.boot();
+      expect(log).toEqual(['boot', 'booted callback']);
+    });
+
+    it('should reject when a provider loaded after boot fails to boot', async () => {
+      class MailServiceProvider extends DeferredServiceProvider {
+        readonly provides = ['mailer'];
+
+        register(): void {
+          this.bind('mailer', 'smtp');
+        }
+
+        boot(): void {
+          throw new Error('no connection');
+        }
+      }
+
+      const app = Application.make();
+      app.register(MailServiceProvider);
+      await app.boot();
+
+      await expect(app.getAsync('mailer')).rejects.toThrow(
+        "Failed to resolve service 'mailer': Failed to load deferred provider 'MailServiceProvider': Failed to boot provider 'MailServiceProvider': no connection"
+      );
+      expect(app.getBootTimeline()).toEqual([
+        expect.objectContaining({ provider: 'MailServiceProvider', status: 'failed', error: 'no connection' }),
+      ]);
+    });
+  });
+});
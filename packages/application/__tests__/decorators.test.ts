@@ -0,0 +1,86 @@
+/**
+ * Tests for the application decorators
+ */
+
+import 'reflect-metadata';
+import { Application } from '../src/application';
+import { BaseServiceProvider } from '../src/service-providers/base-service-provider';
+import { ServiceProvider } from '../src/decorators/service-provider.decorator';
+import { getServiceProviderOptions, isServiceProvider } from '../src/decorators/service-provider-metadata';
+
+describe('@ServiceProvider', () => {
+  let log: string[];
+
+  @ServiceProvider({ priority: 5, dependencies: ['DatabaseServiceProvider'], metadata: { module: 'mail' } })
+  class MailServiceProvider extends BaseServiceProvider {
+    register(): void {
+      this.bind('mailer', { app: this.app });
+    }
+
+    boot(): void {
+      log.push('MailServiceProvider');
+    }
+  }
+
+  @ServiceProvider()
+  class DatabaseServiceProvider extends BaseServiceProvider {
+    register(): void {}
+
+    boot(): void {
+      log.push('DatabaseServiceProvider');
+    }
+  }
+
+  @ServiceProvider({ environment: 'local' })
+  class DebugServiceProvider extends BaseServiceProvider {
+    register(): void {}
+  }
+
+  beforeEach(() => {
+    log = [];
+  });
+
+  it('should store the provider options', () => {
+    expect(isServiceProvider(MailServiceProvider)).toBe(true);
+    expect(isServiceProvider(class {})).toBe(false);
+    expect(getServiceProviderOptions(MailServiceProvider)).toEqual({
+      priority: 5,
+      dependencies: ['DatabaseServiceProvider'],
+      metadata: { module: 'mail' },
+    });
+    expect(getServiceProviderOptions(class {})).toEqual({});
+  });
+
+  it('should instantiate provider classes with the application', async () => {
+    const app = Application.make(undefined, { environment: 'production' });
+    app.register(MailServiceProvider).register(DatabaseServiceProvider);
+
+    await app.boot();
+
+    expect(app.getProviderRegistry().resolve<{ app: Application }>('mailer').app).toBe(app);
+    expect(app.getProviders().map(provider => provider.constructor)).toEqual([MailServiceProvider, DatabaseServiceProvider]);
+  });
+
+  it('should merge the decorator options into the provider config', async () => {
+    const app = Application.make(undefined, { environment: 'production' });
+    app.register(MailServiceProvider).register(DatabaseServiceProvider).register(DebugServiceProvider);
+
+    await app.boot();
+
+    expect(log).toEqual(['DatabaseServiceProvider', 'MailServiceProvider']);
+    expect(app.getProviderRegistry().getStats().skipped).toEqual([
+      { name: 'DebugServiceProvider', reason: "environment 'production' is not one of: local" },
+    ]);
+  });
+
+  it('should let the registration config take precedence over the decorator options', async () => {
+    const app = Application.make(undefined, { environment: 'production' });
+    app.register(MailServiceProvider, { dependencies: [] }).register(DatabaseServiceProvider);
+    app.register(DebugServiceProvider, { environment: ['local', 'production'] });
+
+    await app.boot();
+
+    expect(log).toEqual(['MailServiceProvider', 'DatabaseServiceProvider']);
+    expect(app.getProviders()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for provider discovery
+ */
+
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Application } from '../src/application';
+import { ProviderManifest } from '../src/utilities/provider-manifest';
+import { IServiceProvider } from '../src/interfaces/service-provider.interface';
+
+/**
+ * Provider class exported by the modules written by providerModule().
+ */
+type FixtureProvider = IServiceProvider & { app: Application };
+
+/**
+ * Write a file in the fixture, creating its directory.
+ */
+function write(file: string, contents: string | object): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents, null, 2));
+}
+
+/**
+ * Source of a CommonJS module exporting a provider class with the given name.
+ */
+function providerModule(name: string): string {
+  return `class ${name} { constructor(app) { this.app = app; } register() {} boot() {} }\nmodule.exports = { ${name} };\n`;
+}
+
+describe('ProviderManifest', () => {
+  let basePath: string;
+
+  beforeEach(() => {
+    basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsvel-discovery-'));
+
+    write(path.join(basePath, 'package.json'), {
+      name: 'app',
+      workspaces: ['packages/*'],
+      tsvel: { 'dont-discover': ['ignored'] },
+    });
+
+    // Workspace package exporting its provider from the entry point
+    write(path.join(basePath, 'packages', 'billing', 'package.json'), {
+      name: 'billing',
+      main: 'index.js',
+      tsvel: { providers: ['BillingServiceProvider'] },
+    });
+    write(path.join(basePath, 'packages', 'billing', 'index.js'), providerModule('BillingServiceProvider'));
+
+    // Installed copy of the workspace package, which the workspace package wins over
+    write(path.join(basePath, 'node_modules', 'billing', 'package.json'), {
+      name: 'billing',
+      tsvel: { providers: ['StaleBillingServiceProvider'] },
+    });
+
+    // Scoped installed package naming a module inside the package
+    write(path.join(basePath, 'node_modules', '@acme', 'mail', 'package.json'), {
+      name: '@acme/mail',
+      tsvel: { providers: ['./dist/providers#MailServiceProvider'] },
+    });
+    write(path.join(basePath, 'node_modules', '@acme', 'mail', 'dist', 'providers.js'), providerModule('MailServiceProvider'));
+
+    // Installed package excluded by dont-discover
+    write(path.join(basePath, 'node_modules', 'ignored', 'package.json'), {
+      name: 'ignored',
+      tsvel: { providers: ['IgnoredServiceProvider'] },
+    });
+
+    // Installed package without providers
+    write(path.join(basePath, 'node_modules', 'lodash', 'package.json'), { name: 'lodash' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should discover workspace and installed packages', () => {
+    const manifest = ProviderManifest.make(basePath);
+
+    expect(manifest.getManifest()).toEqual({
+      billing: { path: path.join('packages', 'billing'), providers: ['BillingServiceProvider'] },
+      '@acme/mail': { path: path.join('node_modules', '@acme', 'mail'), providers: ['./dist/providers#MailServiceProvider'] },
+    });
+    expect(manifest.getProviders().map(provider => provider.name)).toEqual(['BillingServiceProvider', 'MailServiceProvider']);
+    expect(fs.existsSync(path.join(basePath, ProviderManifest.DEFAULT_PATH))).toBe(true);
+  });
+
+  it('should disable discovery when dont-discover is *', () => {
+    write(path.join(basePath, 'package.json'), { name: 'app', workspaces: ['packages/*'], tsvel: { 'dont-discover': '*' } });
+
+    expect(ProviderManifest.make(basePath).getManifest()).toEqual({});
+  });
+
+  it('should reuse the cached manifest while its inputs are unchanged', () => {
+    ProviderManifest.make(basePath).build();
+    write(path.join(basePath, 'node_modules', '@acme', 'mail', 'package.json'), { name: '@acme/mail' });
+
+    expect(Object.keys(ProviderManifest.make(basePath).getManifest())).toEqual(['billing', '@acme/mail']);
+  });
+
+  it('should rebuild the cached manifest when dont-discover changes', () => {
+    ProviderManifest.make(basePath).getManifest();
+    write(path.join(basePath, 'package.json'), {
+      name: 'app',
+      workspaces: ['packages/*'],
+      tsvel: { 'dont-discover': ['ignored', '@acme/mail'] },
+    });
+
+    expect(Object.keys(ProviderManifest.make(basePath).getManifest())).toEqual(['billing']);
+  });
+
+  it('should rebuild the cached manifest when packages are installed', () => {
+    ProviderManifest.make(basePath).getManifest();
+    write(path.join(basePath, 'node_modules', 'queue', 'package.json'), {
+      name: 'queue',
+      main: 'index.js',
+      tsvel: { providers: ['QueueServiceProvider'] },
+    });
+    write(path.join(basePath, 'package-lock.json'), { lockfileVersion: 3 });
+
+    expect(Object.keys(ProviderManifest.make(basePath).getManifest())).toEqual(['billing', '@acme/mail', 'queue']);
+  });
+
+  it('should register discovered providers with the application', () => {
+    const app = Application.make(undefined, { basePath, providerManifest: path.join('cache', 'providers.json') });
+
+    app.discoverProviders();
+
+    expect(app.getProviders().map(provider => provider.constructor.name)).toEqual([
+      'BillingServiceProvider',
+      'MailServiceProvider',
+    ]);
+    expect((app.getProviders()[0] as FixtureProvider).app).toBe(app);
+    expect(fs.existsSync(path.join(basePath, 'cache', 'providers.json'))).toBe(true);
+  });
+
+  it('should report providers that cannot be loaded', () => {
+    write(path.join(basePath, 'packages', 'billing', 'package.json'), {
+      name: 'billing',
+      main: 'index.js',
+      tsvel: { providers: ['MissingServiceProvider'] },
+    });
+
+    expect(() => ProviderManifest.make(basePath).getProviders()).toThrow(
+      "Failed to load provider 'MissingServiceProvider' from 'billing': export 'MissingServiceProvider' is not a service provider class"
+    );
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * Tests for the service provider registry
+ */
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { ServiceProviderRegistry } from '../src/utilities/service-provider-registry';
+import { IServiceProvider } from '../src/interfaces/service-provider.interface';
+
+/**
+ * Create a provider class with the given name that logs its boot.
+ */
+function defineProvider(name: string, log: string[], boot: () => void | Promise<void> = () => undefined) {
+  const Provider = class implements IServiceProvider {
+    register(): void {}
+
+    async boot(): Promise<void> {
+      await boot();
+      log.push(name);
+    }
+  };
+  Object.defineProperty(Provider, 'name', { value: name });
+
+  return Provider;
+}
+
+/**
+ * Create a terminable provider class with the given name that logs its boot and termination.
+ */
+function defineTerminableProvider(
+  name: string,
+  log: string[],
+  terminate: () => void | Promise<void> = () => undefined,
+  boot?: () => void | Promise<void>
+) {
+  const Provider = class extends defineProvider(name, log, boot) {
+    readonly isTerminable = true as const;
+
+    async terminate(): Promise<void> {
+      await terminate();
+      log.push(`terminate ${name}`);
+    }
+  };
+  Object.defineProperty(Provider, 'name', { value: name });
+
+  return Provider;
+}
+
+describe('ServiceProviderRegistry', () => {
+  let container: Container;
+  let registry: ServiceProviderRegistry;
+  let log: string[];
+
+  beforeEach(() => {
+    container = new Container();
+    registry = ServiceProviderRegistry.make(container, 'production');
+    log = [];
+  });
+
+  describe('boot order', () => {
+    it('should boot providers after the providers they depend on', async () => {
+      const [Config, Database, Cache, Queue] = ['Config', 'Database', 'Cache', 'Queue'].map(name => defineProvider(name, log));
+      registry.register(new Queue(), { dependencies: ['Database', 'Cache'] });
+      registry.register(new Cache(), { dependencies: ['Config'] });
+      registry.register(new Database(), { dependencies: ['Config'] });
+      registry.register(new Config());
+
+      await registry.boot();
+
+      expect(log).toEqual(['Config', 'Cache', 'Database', 'Queue']);
+    });
+
+    it('should order providers by service dependencies', async () => {
+      class DatabaseProvider implements IServiceProvider {
+        register(): void {
+          container.bind('IDatabase').toConstantValue({});
+        }
+
+        boot(): void {
+          log.push('DatabaseProvider');
+        }
+      }
+      const UserProvider = defineProvider('UserProvider', log);
+      registry.register(new UserProvider(), { dependencies: ['IDatabase'] });
+      registry.register(new DatabaseProvider());
+
+      await registry.boot();
+
+      expect(log).toEqual(['DatabaseProvider', 'UserProvider']);
+    });
+
+    it('should break ties by priority, then registration order', async () => {
+      const [Low, First, Second, Urgent] = ['Low', 'First', 'Second', 'Urgent'].map(name => defineProvider(name, log));
+      registry.register(new Low(), { priority: -1 });
+      registry.register(new First());
+      registry.register(new Second());
+      registry.register(new Urgent(), { priority: 10, dependencies: ['Second'] });
+
+      await registry.boot();
+
+      expect(log).toEqual(['First', 'Second', 'Urgent', 'Low']);
+    });
+
+    it('should reject missing dependencies', async () => {
+      const Queue = defineProvider('Queue', log);
+      registry.register(new Queue(), { dependencies: ['IRedis'] });
+
+      await expect(registry.boot()).rejects.toThrow(
+        "Provider 'Queue' depends on 'IRedis', which is neither a registered provider nor a service it provides"
+      );
+      expect(log).toEqual([]);
+    });
+
+    it('should reject circular dependencies', async () => {
+      const [A, B, C] = ['A', 'B', 'C'].map(name => defineProvider(name, log));
+      registry.register(new A(), { dependencies: ['B'] });
+      registry.register(new B(), { dependencies: ['C'] });
+      registry.register(new C(), { dependencies: ['A'] });
+
+      await expect(registry.boot()).rejects.toThrow('Circular provider dependency detected: A -> B -> C -> A');
+      expect(log).toEqual([]);
+    });
+  });
+
+  describe('environments', () => {
+    it('should skip providers restricted to other environments', async () => {
+      const LocalProvider = defineProvider('LocalProvider', log);
+      const ProductionProvider = defineProvider('ProductionProvider', log);
+
+      registry.register(new LocalProvider(), { environment: ['local', 'testing'] });
+      registry.register(new ProductionProvider(), { environment: 'production' });
+      await registry.boot();
+
+      expect(log).toEqual(['ProductionProvider']);
+      expect(registry.getStats()).toMatchObject({
+        totalProviders: 1,
+        skippedProviders: 1,
+        skipped: [{ name: 'LocalProvider', reason: "environment 'production' is not one of: local, testing" }],
+      });
+    });
+
+    it('should refuse to boot a skipped provider', async () => {
+      const LocalProvider = defineProvider('LocalProvider', log);
+      registry.register(new LocalProvider(), { environment: 'local' });
+
+      await expect(registry.bootProvider('LocalProvider')).rejects.toThrow(
+        "Cannot boot provider 'LocalProvider': skipped because environment 'production' is not one of: local"
+      );
+      await expect(registry.bootProvider('MissingProvider')).rejects.toThrow(
+        "Cannot boot provider 'MissingProvider': provider is not registered"
+      );
+    });
+  });
+
+  describe('autoboot', () => {
+    it('should leave providers registered with autoboot: false for bootProvider()', async () => {
+      const QueueProvider = defineProvider('QueueProvider', log);
+      const AppProvider = defineProvider('AppProvider', log);
+      registry.register(new QueueProvider(), { autoboot: false });
+      registry.register(new AppProvider());
+
+      await registry.boot();
+      expect(log).toEqual(['AppProvider']);
+
+      await registry.bootProvider('QueueProvider');
+      await registry.bootProvider('QueueProvider');
+      expect(log).toEqual(['AppProvider', 'QueueProvider']);
+    });
+
+    it('should boot the dependencies of a provider booted manually first', async () => {
+      const DatabaseProvider = defineProvider('DatabaseProvider', log);
+      const CacheProvider = defineProvider('CacheProvider', log);
+      const QueueProvider = defineProvider('QueueProvider', log);
+      registry.register(new QueueProvider(), { autoboot: false, dependencies: ['CacheProvider'] });
+      registry.register(new CacheProvider(), { autoboot: false, dependencies: ['DatabaseProvider'] });
+      registry.register(new DatabaseProvider(), { autoboot: false });
+
+      await registry.bootProvider('QueueProvider');
+
+      expect(log).toEqual(['DatabaseProvider', 'CacheProvider', 'QueueProvider']);
+    });
+  });
+
+  describe('registration', () => {
+    it('should record the services bound by an async register()', async () => {
+      class DatabaseProvider implements IServiceProvider {
+        async register(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          container.bind('IDatabase').toConstantValue({ name: 'db' });
+        }
+
+        boot(): void {
+          log.push('DatabaseProvider');
+        }
+      }
+      const UserProvider = defineProvider('UserProvider', log);
+
+      registry.register(new UserProvider(), { dependencies: ['IDatabase'] });
+      registry.register(new DatabaseProvider());
+      await registry.boot();
+
+      expect(log).toEqual(['DatabaseProvider', 'UserProvider']);
+      expect(container.get('IDatabase')).toEqual({ name: 'db' });
+    });
+
+    it('should fail the boot when an async register() fails', async () => {
+      class BrokenProvider implements IServiceProvider {
+        async register(): Promise<void> {
+          throw new Error('config missing');
+        }
+
+        boot(): void {}
+      }
+
+      registry.register(new BrokenProvider());
+
+      await expect(registry.boot()).rejects.toThrow(
+        "Failed to boot providers: Failed to register provider 'BrokenProvider': config missing"
+      );
+    });
+
+    it('should keep a failed async register() from being an unhandled rejection before boot', async () => {
+      class BrokenProvider implements IServiceProvider {
+        async register(): Promise<void> {
+          throw new Error('config missing');
+        }
+
+        boot(): void {}
+      }
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+
+      try {
+        registry.register(new BrokenProvider());
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        expect(unhandled).not.toHaveBeenCalled();
+        await expect(registry.boot()).rejects.toThrow("Failed to register provider 'BrokenProvider': config missing");
+      } finally {
+        process.off('unhandledRejection', unhandled);
+      }
+    });
+
+    it('should bind the services of a sync register() while an async register() is pending', async () => {
+      class DatabaseProvider implements IServiceProvider {
+        async register(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          container.bind('IDatabase').toConstantValue({ name: 'db' });
+        }
+
+        boot(): void {}
+      }
+      class CacheProvider implements IServiceProvider {
+        register(): void {
+          container.bind('ICache').toConstantValue({ name: 'cache' });
+        }
+
+        boot(): void {}
+      }
+
+      registry.register(new DatabaseProvider());
+      registry.register(new CacheProvider());
+
+      expect(container.isBound('ICache')).toBe(true);
+      expect(container.isBound('IDatabase')).toBe(false);
+      await registry.boot();
+      expect(container.isBound('IDatabase')).toBe(true);
+    });
+
+    it('should not record the services bound elsewhere while an async register() is pending', async () => {
+      class DatabaseProvider implements IServiceProvider {
+        async register(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          container.bind('IDatabase').toConstantValue({ name: 'db' });
+        }
+
+        boot(): void {
+          log.push('DatabaseProvider');
+        }
+      }
+      const UserProvider = defineProvider('UserProvider', log);
+
+      registry.register(new UserProvider(), { dependencies: ['ICache'] });
+      registry.register(new DatabaseProvider());
+      container.bind('ICache').toConstantValue({ name: 'cache' });
+      await registry.boot();
+
+      expect(log).toEqual(['UserProvider', 'DatabaseProvider']);
+    });
+  });
+
+  describe('failure policy', () => {
+    const fail = () => {
+      throw new Error('connection refused');
+    };
+    let consoleError: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+    });
+
+    it('should roll back the booted terminable providers in reverse boot order on failFast', async () => {
+      const Config = defineTerminableProvider('Config', log);
+      const Logger = defineProvider('Logger', log);
+      const Database = defineTerminableProvider('Database', log);
+      const Cache = defineTerminableProvider('Cache', log, undefined, fail);
+      const Queue = defineTerminableProvider('Queue', log);
+      registry.register(new Config());
+      registry.register(new Logger(), { dependencies: ['Config'] });
+      registry.register(new Database(), { dependencies: ['Logger'] });
+      registry.register(new Cache(), { dependencies: ['Database'] });
+      registry.register(new Queue(), { dependencies: ['Cache'] });
+
+      await expect(registry.boot()).rejects.toThrow(
+        "Failed to boot providers: Failed to boot provider 'Cache': connection refused"
+      );
+
+      expect(log).toEqual(['Config', 'Logger', 'Database', 'terminate Database', 'terminate Config']);
+      expect(registry.isBooted()).toBe(false);
+    });
+
+    it('should keep rolling back when a provider fails to terminate', async () => {
+      const Config = defineTerminableProvider('Config', log);
+      const Database = defineTerminableProvider('Database', log, fail);
+      const Cache = defineProvider('Cache', log, fail);
+      registry.register(new Config());
+      registry.register(new Database(), { dependencies: ['Config'] });
+      registry.register(new Cache(), { dependencies: ['Database'] });
+
+      await expect(registry.boot()).rejects.toThrow(
+        "Failed to boot providers: Failed to boot provider 'Cache': connection refused"
+      );
+
+      expect(log).toEqual(['Config', 'Database', 'terminate Config']);
+      expect(consoleError).toHaveBeenCalledWith('Error terminating provider Database:', expect.any(Error));
+
+      // Providers rolled back are not terminated again
+      await registry.terminate();
+      expect(log).toEqual(['Config', 'Database', 'terminate Config']);
+    });
+
+    it('should mark failed providers and their dependents failed on continue', async () => {
+      const Config = defineProvider('Config', log);
+      const Database = defineTerminableProvider('Database', log);
+      const Cache = defineProvider('Cache', log, fail);
+      const Queue = defineProvider('Queue', log);
+      const Mail = defineProvider('Mail', log);
+      registry.register(new Config());
+      registry.register(new Database(), { dependencies: ['Config'] });
+      registry.register(new Cache(), { dependencies: ['Config'] });
+      registry.register(new Queue(), { dependencies: ['Cache'] });
+      registry.register(new Mail(), { dependencies: ['Database'] });
+
+      await registry.boot({ failurePolicy: 'continue' });
+
+      expect(registry.isBooted()).toBe(true);
+      expect(log).toEqual(['Config', 'Database', 'Mail']);
+      expect(registry.getStats()).toMatchObject({
+        bootedProviders: 3,
+        failedProviders: 2,
+        failed: [
+          { name: 'Cache', reason: "Failed to boot provider 'Cache': connection refused" },
+          { name: 'Queue', reason: "Failed to boot provider 'Queue': dependency 'Cache' failed to boot" },
+        ],
+      });
+    });
+
+    it('should mark optional providers failed without failing the boot', async () => {
+      const Config = defineTerminableProvider('Config', log);
+      const Metrics = defineProvider('Metrics', log, fail);
+      const Database = defineProvider('Database', log);
+      registry.register(new Config());
+      registry.register(new Metrics(), { dependencies: ['Config'], optional: true });
+      registry.register(new Database(), { dependencies: ['Config'] });
+
+      await registry.boot();
+
+      expect(registry.isBooted()).toBe(true);
+      expect(log).toEqual(['Config', 'Database']);
+      expect(registry.getStats().failed).toEqual([
+        { name: 'Metrics', reason: "Failed to boot provider 'Metrics': connection refused" },
+      ]);
+    });
+
+    it('should still fail fast for required providers next to optional ones', async () => {
+      const Config = defineTerminableProvider('Config', log);
+      const Metrics = defineProvider('Metrics', log, fail);
+      const Database = defineProvider('Database', log, fail);
+      registry.register(new Config());
+      registry.register(new Metrics(), { dependencies: ['Config'], optional: true });
+      registry.register(new Database(), { dependencies: ['Config'] });
+
+      await expect(registry.boot()).rejects.toThrow(
+        "Failed to boot providers: Failed to boot provider 'Database': connection refused"
+      );
+      expect(log).toEqual(['Config', 'terminate Config']);
+    });
+  });
+
+  describe('concurrent boot', () => {
+    const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+    let running: number;
+    let maxRunning: number;
+    const track = (ms: number) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+    };
+
+    beforeEach(() => {
+      running = 0;
+      maxRunning = 0;
+    });
+
+    it('should boot providers in dependency waves', async () => {
+      const [Config, Mail, Database, Cache, Queue] = ['Config', 'Mail', 'Database', 'Cache', 'Queue'].map(name =>
+        defineProvider(name, log, track(5))
+      );
+      registry.register(new Queue(), { dependencies: ['Database', 'Cache'] });
+      registry.register(new Database(), { dependencies: ['Config'] });
+      registry.register(new Cache(), { dependencies: ['Config'] });
+      registry.register(new Config());
+      registry.register(new Mail());
+
+      await registry.boot({ concurrency: 4 });
+
+      expect(registry.getBootTimeline().map(({ provider, wave }) => [provider, wave])).toEqual([
+        ['Config', 0],
+        ['Mail', 0],
+        ['Database', 1],
+        ['Cache', 1],
+        ['Queue', 2],
+      ]);
+      expect(maxRunning).toBe(2);
+      expect(log.indexOf('Queue')).toBe(4);
+    });
+
+    it('should boot at most the given number of providers at the same time', async () => {
+      ['A', 'B', 'C', 'D', 'E'].forEach(name => registry.register(new (defineProvider(name, log, track(5)))()));
+
+      await registry.boot({ concurrency: 2 });
+
+      expect(maxRunning).toBe(2);
+      expect(log).toHaveLength(5);
+    });
+
+    it('should boot one provider at a time by default', async () => {
+      ['A', 'B', 'C'].forEach(name => registry.register(new (defineProvider(name, log, track(2)))()));
+
+      await registry.boot();
+
+      expect(maxRunning).toBe(1);
+      expect(log).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should fail providers that exceed their boot timeout', async () => {
+      const Config = defineProvider('Config', log);
+      const Slow = defineProvider('Slow', log, () => delay(50));
+      registry.register(new Config());
+      registry.register(new Slow(), { dependencies: ['Config'] });
+
+      await expect(registry.boot({ timeout: 10 })).rejects.toThrow(
+        "Failed to boot providers: Failed to boot provider 'Slow': boot timed out after 10ms"
+      );
+      expect(registry.getStats().bootedProviders).toBe(1);
+    });
+
+    it('should prefer the timeout a provider was registered with', async () => {
+      const Slow = defineProvider('Slow', log, () => delay(20));
+      const Slower = defineProvider('Slower', log, () => delay(20));
+      registry.register(new Slow(), { bootTimeout: 100 });
+      registry.register(new Slower(), { bootTimeout: 5 });
+
+      await expect(registry.boot({ timeout: 10 })).rejects.toThrow(
+        "Failed to boot providers: Failed to boot provider 'Slower': boot timed out after 5ms"
+      );
+      expect(log).toEqual(['Slow']);
+    });
+
+    it('should log a boot that fails after its timeout instead of leaving it unhandled', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const lateError = new Error('connection refused');
+      const Slow = defineProvider('Slow', log, async () => {
+        await delay(20);
+        throw lateError;
+      });
+      registry.register(new Slow());
+
+      try {
+        await registry.boot({ timeout: 5, failurePolicy: 'continue' });
+        await delay(30);
+
+        expect(consoleError).toHaveBeenCalledWith('Error booting provider Slow after its boot timed out:', lateError);
+        expect(registry.getStats().failed).toEqual([
+          { name: 'Slow', reason: "Failed to boot provider 'Slow': boot timed out after 5ms" },
+        ]);
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+
+    it('should record each boot in the boot timeline', async () => {
+      const Config = defineProvider('Config', log, () => delay(10));
+      const Broken = defineProvider('Broken', log, () => {
+        throw new Error('config missing');
+      });
+      const Manual = defineProvider('Manual', log);
+      registry.register(new Config());
+      registry.register(new Broken(), { dependencies: ['Config'], optional: true });
+      registry.register(new Manual(), { autoboot: false });
+
+      await registry.boot({ concurrency: 2 });
+      await registry.bootProvider('Manual');
+
+      const [config, broken, manual] = registry.getBootTimeline();
+      expect(config).toEqual({ provider: 'Config', wave: 0, start: expect.any(Number), duration: expect.any(Number), status: 'booted' });
+      expect(config.duration).toBeGreaterThanOrEqual(5);
+      expect(broken).toEqual({
+        provider: 'Broken',
+        wave: 1,
+        start: expect.any(Number),
+        duration: expect.any(Number),
+        status: 'failed',
+        error: 'config missing',
+      });
+      expect(broken.start).toBeGreaterThanOrEqual(config.start + config.duration);
+      expect(manual).toEqual({ provider: 'Manual', start: expect.any(Number), duration: expect.any(Number), status: 'booted' });
+    });
+  });
+});
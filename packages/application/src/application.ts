@@ -1,8 +1,13 @@
 import { Container } from 'inversify';
-import { IServiceProvider } from './interfaces/service-provider.interface';
+import { Container as FrameworkContainer, INJECTION_TOKENS } from '@tsvel/container';
+import { EventDispatcher, IEventDispatcher, IQueueDriver } from '@tsvel/events';
+import { IServiceProvider, IServiceProviderConstructor } from './interfaces/service-provider.interface';
 import { IProviderConfig } from './interfaces/provider-config.interface';
 import { IServiceProviderRegistry } from './interfaces/service-provider-registry.interface';
+import { IDiscoverProvidersOptions } from './interfaces/provider-manifest.interface';
+import { BootFailurePolicy, IBootTimelineEntry } from './interfaces/boot-options.interface';
 import { ServiceProviderRegistry } from './utilities/service-provider-registry';
+import { ProviderManifest } from './utilities/provider-manifest';
 
 /**
  * Main application class that manages service providers and application lifecycle.
@@ -21,6 +26,11 @@ export class Application {
    */
   private readonly providerRegistry: IServiceProviderRegistry;
 
+  /**
+   * The event dispatcher that receives the application lifecycle events.
+   */
+  private readonly events: IEventDispatcher;
+
   /**
    * Application configuration and metadata.
    */
@@ -31,6 +41,16 @@ export class Application {
    */
   private state: ApplicationState = ApplicationState.CREATED;
 
+  /**
+   * Callbacks run before the providers boot.
+   */
+  private bootingCallbacks: Array<(app: Application) => void | Promise<void>> = [];
+
+  /**
+   * Callbacks run once the application has booted.
+   */
+  private bootedCallbacks: Array<(app: Application) => void | Promise<void>> = [];
+
   /**
    * Application statistics for monitoring and debugging.
    */
@@ -45,34 +65,41 @@ export class Application {
   /**
    * Creates a new application instance.
    * 
-   * @param container - Optional existing container to use
+   * @param container - Optional existing container to use, defaults to a framework container
    * @param config - Optional application configuration
    */
   constructor(container?: Container, config: ApplicationConfig = {}) {
-    this.container = container || new Container();
+    this.container = container || FrameworkContainer.make();
     this.config = { ...this.getDefaultConfig(), ...config };
-    this.providerRegistry = ServiceProviderRegistry.make(this.container);
+    this.events = EventDispatcher.make(this.container);
+    if (this.config.eventQueue) {
+      this.events.setQueue(this.config.eventQueue);
+    }
+    this.providerRegistry = ServiceProviderRegistry.make(this.container, this.config.environment, this.events);
     this.setupApplication();
   }
 
   /**
    * Register a service provider with the application.
+   * Provider classes are instantiated with the application; options from their
+   * @ServiceProvider decorator are merged into the config.
    * Delegates to the service provider registry for centralized management.
    * 
-   * @param provider - The service provider to register
+   * @param provider - The service provider, or service provider class, to register
    * @param config - Optional configuration for the provider
    * @returns this - The application instance for method chaining
    */
-  register(provider: IServiceProvider, config: IProviderConfig = {}): this {
+  register(provider: IServiceProvider | IServiceProviderConstructor, config: IProviderConfig = {}): this {
     this.validateApplicationState([ApplicationState.CREATED, ApplicationState.REGISTERED]);
     
     try {
-      this.providerRegistry.register(provider, config);
+      const instance = typeof provider === 'function' ? new provider(this) : provider;
+      this.providerRegistry.register(instance, config);
       this.state = ApplicationState.REGISTERED;
       
       // Log provider registration in development
       if (this.config.debug) {
-        console.debug(`Registered provider: ${provider.constructor.name}`);
+        console.debug(`Registered provider: ${instance.constructor.name}`);
       }
       
       return this;
@@ -82,6 +109,30 @@ export class Application {
     }
   }
 
+  /**
+   * Register the service providers that packages declare in the `tsvel.providers`
+   * field of their package.json. The manifest of discovered providers is cached
+   * at `providerManifest`; packages listed in the application's
+   * `tsvel.dont-discover` field are not discovered.
+   * 
+   * @param options - Optional discovery options
+   * @returns this - The application instance for method chaining
+   * @throws Error if a discovered provider cannot be loaded or registered
+   */
+  discoverProviders(options: IDiscoverProvidersOptions = {}): this {
+    const manifest = ProviderManifest.make(this.config.basePath!, this.config.providerManifest);
+
+    if (options.rebuild) {
+      manifest.build();
+    }
+
+    for (const provider of manifest.getProviders()) {
+      this.register(provider);
+    }
+
+    return this;
+  }
+
   /**
    * Boot the application and all registered service providers.
    * Delegates to the service provider registry for provider booting.
@@ -95,31 +146,83 @@ export class Application {
     
     try {
       this.state = ApplicationState.BOOTING;
+
+      // Run the booting callbacks before any provider boots
+      for (const callback of this.bootingCallbacks) {
+        await callback(this);
+      }
       
       // Boot all providers through the registry
-      await this.providerRegistry.boot();
+      await this.providerRegistry.boot({
+        failurePolicy: this.config.bootFailurePolicy,
+        concurrency: this.config.bootConcurrency,
+        timeout: this.config.bootTimeout,
+      });
       
       this.state = ApplicationState.BOOTED;
+
+      // Run the booted callbacks once every provider has booted
+      for (const callback of this.bootedCallbacks) {
+        await callback(this);
+      }
+
       this.stats.bootTime = Date.now() - startTime;
       
       // Log boot completion
       if (this.config.debug) {
         console.debug(`Application booted in ${this.stats.bootTime}ms`);
+        for (const entry of this.getBootTimeline()) {
+          const wave = entry.wave !== undefined ? `wave ${entry.wave}` : 'manual';
+          console.debug(`  ${entry.provider} [${wave}] +${entry.start}ms ${entry.duration}ms ${entry.status}`);
+        }
       }
       
-      // Emit boot event if event system is available
-      this.emitEvent('application.booted', { bootTime: this.stats.bootTime });
+      // Emit boot event
+      await this.emitEvent('application.booted', { bootTime: this.stats.bootTime });
       
     } catch (error) {
       this.state = ApplicationState.ERROR;
       this.stats.errorCount++;
+      await this.emitEvent('application.error', { type: 'boot', error });
       throw new Error(`Failed to boot application: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Register a callback to run before the service providers boot.
+   * 
+   * @param callback - The callback, called with the application
+   * @returns this - The application instance for method chaining
+   */
+  booting(callback: (app: Application) => void | Promise<void>): this {
+    this.bootingCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback to run once the application has booted.
+   * Callbacks registered after the application has booted run immediately.
+   * 
+   * @param callback - The callback, called with the application
+   * @returns this - The application instance for method chaining
+   */
+  booted(callback: (app: Application) => void | Promise<void>): this {
+    if (this.isBooted()) {
+      (async () => callback(this))().catch(error => {
+        this.stats.errorCount++;
+        console.error('Error in booted callback:', error);
+      });
+    } else {
+      this.bootedCallbacks.push(callback);
+    }
+
+    return this;
+  }
+
   /**
    * Terminate the application and clean up resources.
-   * Delegates to the service provider registry for provider termination.
+   * Delegates to the service provider registry for provider termination,
+   * then disposes the singletons owned by the container.
    * 
    * @returns Promise<void>
    */
@@ -132,10 +235,13 @@ export class Application {
       this.state = ApplicationState.TERMINATING;
       
       // Emit termination event
-      this.emitEvent('application.terminating');
+      await this.emitEvent('application.terminating');
       
       // Terminate all providers through the registry
       await this.providerRegistry.terminate();
+
+      // Dispose the singletons owned by the container once providers are gone
+      await this.disposeContainer();
       
       this.state = ApplicationState.TERMINATED;
       
@@ -145,12 +251,13 @@ export class Application {
       }
       
       // Emit terminated event
-      this.emitEvent('application.terminated');
+      await this.emitEvent('application.terminated');
       
     } catch (error) {
       this.state = ApplicationState.ERROR;
       this.stats.errorCount++;
       console.error('Error during application termination:', error);
+      await this.emitEvent('application.error', { type: 'terminate', error });
     }
   }
 
@@ -172,6 +279,25 @@ export class Application {
     }
   }
 
+  /**
+   * Get a service from the container, waiting for a deferred provider of the
+   * service to register and, once the application has booted, to boot.
+   * Delegates to the service provider registry for service resolution.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   */
+  async getAsync<T>(identifier: string | symbol): Promise<T> {
+    try {
+      this.stats.requestCount++;
+      return await this.providerRegistry.resolveAsync<T>(identifier);
+    } catch (error) {
+      this.stats.errorCount++;
+      throw error;
+    }
+  }
+
   /**
    * Check if a service is bound in the container.
    * Delegates to the service provider registry for availability checking.
@@ -261,6 +387,27 @@ export class Application {
     };
   }
 
+  /**
+   * Get the boot timeline for diagnosing slow startup.
+   * Lists each provider that booted or failed with its dependency wave, start time
+   * relative to the start of the boot and duration.
+   * 
+   * @returns IBootTimelineEntry[] - The boot timeline, in start order
+   */
+  getBootTimeline(): IBootTimelineEntry[] {
+    return this.providerRegistry.getBootTimeline();
+  }
+
+  /**
+   * Get the event dispatcher that receives the application lifecycle events.
+   * The same dispatcher is bound to INJECTION_TOKENS.EVENTS in the container.
+   * 
+   * @returns IEventDispatcher - The event dispatcher
+   */
+  getEvents(): IEventDispatcher {
+    return this.events;
+  }
+
   /**
    * Get the service provider registry instance.
    * Provides access to the registry for advanced operations.
@@ -280,6 +427,9 @@ export class Application {
   private setupApplication(): void {
     // Bind the application instance to the container
     this.container.bind<Application>('Application').toConstantValue(this);
+
+    // Bind the event dispatcher to the container
+    this.container.bind<IEventDispatcher>(INJECTION_TOKENS.EVENTS).toConstantValue(this.events);
     
     // Setup error handling
     this.setupErrorHandling();
@@ -305,14 +455,14 @@ export class Application {
       process.on('unhandledRejection', (reason, promise) => {
         this.stats.errorCount++;
         console.error('Unhandled Promise Rejection:', reason);
-        this.emitEvent('application.error', { type: 'unhandledRejection', reason, promise });
+        void this.emitEvent('application.error', { type: 'unhandledRejection', reason, promise });
       });
 
       // Handle uncaught exceptions
       process.on('uncaughtException', (error) => {
         this.stats.errorCount++;
         console.error('Uncaught Exception:', error);
-        this.emitEvent('application.error', { type: 'uncaughtException', error });
+        void this.emitEvent('application.error', { type: 'uncaughtException', error });
       });
     }
   }
@@ -351,18 +501,52 @@ export class Application {
   }
 
   /**
-   * Emit an application event if event system is available.
+   * Dispose the container's singletons when it is a framework container, as the default one is.
+   * A plain InversifyJS container passed to the constructor cannot dispose its singletons,
+   * so they are left as they are. Disposal failures are reported without aborting termination.
+   * 
+   * @private
+   * @returns Promise<void>
+   */
+  private async disposeContainer(): Promise<void> {
+    if (!(this.container instanceof FrameworkContainer)) {
+      return;
+    }
+
+    try {
+      await this.container.dispose({ timeout: this.config.disposeTimeout });
+    } catch (error) {
+      this.stats.errorCount++;
+      console.error('Error during container disposal:', error);
+    }
+  }
+
+  /**
+   * Dispatch an application event through the event dispatcher.
+   * Listener failures are logged and reported as an `application.error` event of
+   * type `listener`, without interrupting the application lifecycle.
    * 
    * @private
    * @param event - The event name
    * @param data - Optional event data
+   * @returns Promise<void>
    */
-  private emitEvent(event: string, data?: any): void {
-    // In a real implementation, this would use an event emitter
-    // For now, we just log in development mode
+  private async emitEvent(event: string, data?: any): Promise<void> {
     if (this.config.debug) {
       console.debug(`Event: ${event}`, data || '');
     }
+
+    try {
+      await this.events.dispatch(event, data);
+    } catch (error) {
+      this.stats.errorCount++;
+      console.error(`Error in '${event}' listener:`, error);
+
+      // A failing error listener is only logged, so it cannot report itself forever
+      if (event !== 'application.error') {
+        await this.emitEvent('application.error', { type: 'listener', event, error });
+      }
+    }
   }
 
   /**
@@ -379,6 +563,7 @@ export class Application {
       version: '1.0.0',
       timezone: 'UTC',
       locale: 'en',
+      basePath: process.cwd(),
     };
   }
 
@@ -432,6 +617,45 @@ export interface ApplicationConfig {
    */
   locale?: string;
 
+  /**
+   * Maximum time in milliseconds each container singleton is given to dispose on terminate.
+   */
+  disposeTimeout?: number;
+
+  /**
+   * The application root directory, containing its package.json.
+   */
+  basePath?: string;
+
+  /**
+   * Location of the cached provider manifest used by discoverProviders(), relative
+   * to the base path or absolute. Defaults to `.tsvel/providers.json` in the base path.
+   */
+  providerManifest?: string;
+
+  /**
+   * What to do when a provider fails to boot, defaults to `failFast`.
+   */
+  bootFailurePolicy?: BootFailurePolicy;
+
+  /**
+   * Maximum number of providers booted at the same time, defaults to 1.
+   * Above 1, providers whose dependencies have booted boot concurrently, in dependency waves.
+   */
+  bootConcurrency?: number;
+
+  /**
+   * Time in milliseconds each provider may take to boot before it fails.
+   * Unlimited by default; providers may set their own `bootTimeout`.
+   */
+  bootTimeout?: number;
+
+  /**
+   * Queue driver receiving the jobs of queued event listeners.
+   * Defaults to an in-memory queue.
+   */
+  eventQueue?: IQueueDriver;
+
   /**
    * Additional custom configuration.
    */
@@ -451,4 +675,13 @@ export enum ApplicationState {
   TERMINATING = 'terminating',
   TERMINATED = 'terminated',
   ERROR = 'error',
+}
+
+declare module '@tsvel/container' {
+  /**
+   * Service type of INJECTION_TOKENS.APPLICATION.
+   */
+  interface IInjectionTokenTypes {
+    Application: Application;
+  }
 }
\ No newline at end of file
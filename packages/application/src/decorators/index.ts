@@ -0,0 +1,7 @@
+/**
+ * Barrel export for all application decorators.
+ * Provides centralized access to service provider decorators and their metadata helpers.
+ */
+
+export * from './service-provider.decorator';
+export * from './service-provider-metadata';
\ No newline at end of file
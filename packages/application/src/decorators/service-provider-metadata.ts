@@ -0,0 +1,71 @@
+/**
+ * Metadata keys written by the @ServiceProvider decorator.
+ * Kept apart from the decorator so the registry can read provider options
+ * without loading @tsvel/decorators.
+ */
+export const SERVICE_PROVIDER_METADATA = {
+  OPTIONS: 'serviceProvider:options',
+  IS_PROVIDER: 'serviceProvider:isProvider',
+} as const;
+
+/**
+ * Configuration options for the ServiceProvider decorator.
+ * 
+ * @interface ServiceProviderOptions
+ */
+export interface ServiceProviderOptions {
+  /**
+   * Whether the provider should be registered as deferred.
+   */
+  deferred?: boolean;
+
+  /**
+   * Priority for provider registration (higher numbers register first).
+   */
+  priority?: number;
+
+  /**
+   * Whether the application may boot without this provider.
+   */
+  optional?: boolean;
+
+  /**
+   * Time in milliseconds the provider may take to boot, overriding the boot timeout.
+   */
+  bootTimeout?: number;
+
+  /**
+   * Environments the provider is registered in; it is skipped in any other environment.
+   */
+  environment?: string | string[];
+
+  /**
+   * Providers (by name) or services (by identifier) that must boot before this provider.
+   */
+  dependencies?: (string | symbol)[];
+
+  /**
+   * Additional metadata for the provider.
+   */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Check if a class is marked as a service provider.
+ * 
+ * @param target - The class to check
+ * @returns boolean - True if the class is a service provider
+ */
+export function isServiceProvider(target: any): boolean {
+  return Reflect.getMetadata(SERVICE_PROVIDER_METADATA.IS_PROVIDER, target) === true;
+}
+
+/**
+ * Get service provider options from a class.
+ * 
+ * @param target - The service provider class
+ * @returns ServiceProviderOptions - The provider options
+ */
+export function getServiceProviderOptions(target: any): ServiceProviderOptions {
+  return Reflect.getMetadata(SERVICE_PROVIDER_METADATA.OPTIONS, target) || {};
+}
\ No newline at end of file
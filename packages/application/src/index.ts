@@ -12,6 +12,9 @@ export * from './interfaces';
 // Service providers
 export * from './service-providers';
 
+// Decorators
+export * from './decorators';
+
 // Re-export commonly used types
 export type { IServiceProvider } from './interfaces/service-provider.interface';
 export type { IDeferredServiceProvider } from './interfaces/deferred-service-provider.interface';
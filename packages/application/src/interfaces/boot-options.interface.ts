@@ -0,0 +1,70 @@
+/**
+ * What the registry does when a provider fails to boot.
+ * - `failFast`: stop booting and terminate the terminable providers already booted, in reverse boot order
+ * - `continue`: mark the provider failed and keep booting the providers that do not depend on it
+ */
+export type BootFailurePolicy = 'failFast' | 'continue';
+
+/**
+ * Options for booting the registered service providers.
+ * 
+ * @interface IBootOptions
+ */
+export interface IBootOptions {
+  /**
+   * What to do when a provider fails to boot, defaults to `failFast`.
+   * Providers registered with `optional: true` are marked failed under either policy.
+   */
+  failurePolicy?: BootFailurePolicy;
+
+  /**
+   * Maximum number of providers booted at the same time, defaults to 1.
+   * Above 1, providers boot in waves: each wave holds the providers whose
+   * dependencies booted in earlier waves, and its providers boot concurrently.
+   */
+  concurrency?: number;
+
+  /**
+   * Time in milliseconds each provider may take to boot before it fails.
+   * Providers registered with a `bootTimeout` use their own timeout instead.
+   */
+  timeout?: number;
+}
+
+/**
+ * A provider boot recorded in the boot timeline.
+ * 
+ * @interface IBootTimelineEntry
+ */
+export interface IBootTimelineEntry {
+  /**
+   * The provider name.
+   */
+  provider: string;
+
+  /**
+   * The dependency wave of the provider, starting at 0.
+   * Providers booted with bootProvider() outside the boot have no wave.
+   */
+  wave?: number;
+
+  /**
+   * When the provider started booting, in milliseconds since the boot started.
+   */
+  start: number;
+
+  /**
+   * How long the provider took to boot or fail, in milliseconds.
+   */
+  duration: number;
+
+  /**
+   * Whether the provider booted or failed.
+   */
+  status: 'booted' | 'failed';
+
+  /**
+   * The error message, for failed providers.
+   */
+  error?: string;
+}
\ No newline at end of file
@@ -7,4 +7,8 @@ export * from './service-provider.interface';
 export * from './deferred-service-provider.interface';
 export * from './terminable-service-provider.interface';
 export * from './provider-config.interface';
-export * from './service-provider-registry.interface';
\ No newline at end of file
+export * from './service-provider-registry.interface';
+export * from './service-provider-registry-stats.interface';
+export * from './provider-manifest.interface';
+export * from './provider-event.interface';
+export * from './boot-options.interface';
\ No newline at end of file
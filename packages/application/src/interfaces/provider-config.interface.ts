@@ -11,22 +11,34 @@ export interface IProviderConfig {
   deferred?: boolean;
 
   /**
-   * Whether the provider should be booted immediately after registration.
+   * Whether the provider is booted with the application. When false the provider
+   * is registered but only booted by ServiceProviderRegistry.bootProvider().
    */
   autoboot?: boolean;
 
+  /**
+   * Whether the application may boot without this provider. A failing optional
+   * provider is marked failed instead of failing the boot.
+   */
+  optional?: boolean;
+
+  /**
+   * Time in milliseconds the provider may take to boot, overriding the boot timeout.
+   */
+  bootTimeout?: number;
+
   /**
    * Priority for provider registration (higher numbers register first).
    */
   priority?: number;
 
   /**
-   * Environment conditions for provider registration.
+   * Environments the provider is registered in; it is skipped in any other environment.
    */
   environment?: string | string[];
 
   /**
-   * Dependencies that must be registered before this provider.
+   * Providers (by name) or services (by identifier) that must boot before this provider.
    */
   dependencies?: (string | symbol)[];
 
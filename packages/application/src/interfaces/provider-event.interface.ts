@@ -0,0 +1,27 @@
+/**
+ * Payload of the provider lifecycle events: `provider.registering`,
+ * `provider.registered`, `provider.booting`, `provider.booted` and `provider.failed`.
+ * 
+ * @interface IProviderEvent
+ */
+export interface IProviderEvent {
+  /**
+   * The provider name.
+   */
+  provider: string;
+
+  /**
+   * The lifecycle phase the event belongs to.
+   */
+  phase: 'register' | 'boot';
+
+  /**
+   * Milliseconds the phase took; set on `registered`, `booted` and `failed` events.
+   */
+  time?: number;
+
+  /**
+   * The error that made the phase fail; set on `failed` events.
+   */
+  error?: unknown;
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Discovery settings a package declares under the `tsvel` field of its package.json.
+ * 
+ * @interface IPackageDiscoveryConfig
+ */
+export interface IPackageDiscoveryConfig {
+  /**
+   * Providers to register, each given as an export of the package entry point
+   * (`LoggerServiceProvider`) or as a module path inside the package followed
+   * by the export name (`./dist/providers#LoggerServiceProvider`).
+   */
+  providers?: string[];
+
+  /**
+   * Packages whose providers are not discovered, or `*` to disable discovery.
+   * Only read from the application's own package.json.
+   */
+  'dont-discover'?: string[] | '*';
+}
+
+/**
+ * Providers discovered in a single package.
+ * 
+ * @interface IProviderManifestEntry
+ */
+export interface IProviderManifestEntry {
+  /**
+   * Directory of the package, relative to the application base path.
+   */
+  path: string;
+
+  /**
+   * The providers listed by the package.
+   */
+  providers: string[];
+}
+
+/**
+ * Cached provider manifest, keyed by package name.
+ */
+export type ProviderManifestData = Record<string, IProviderManifestEntry>;
+
+/**
+ * Contents of the cached provider manifest file.
+ * 
+ * @interface IProviderManifestFile
+ */
+export interface IProviderManifestFile {
+  /**
+   * Fingerprint of the files discovery depends on; the cache is rebuilt when it changes.
+   */
+  fingerprint: string;
+
+  /**
+   * The discovered providers, keyed by package name.
+   */
+  packages: ProviderManifestData;
+}
+
+/**
+ * Options for discovering providers.
+ * 
+ * @interface IDiscoverProvidersOptions
+ */
+export interface IDiscoverProvidersOptions {
+  /**
+   * Rebuild the manifest even if a cached manifest exists.
+   */
+  rebuild?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * A provider reported by the registry statistics, with the reason it is reported.
+ * 
+ * @interface IProviderStatusEntry
+ */
+export interface IProviderStatusEntry {
+  /**
+   * The provider name.
+   */
+  name: string;
+
+  /**
+   * Why the provider was skipped or failed.
+   */
+  reason: string;
+}
+
+/**
+ * Service provider registry statistics for monitoring and debugging.
+ * 
+ * @interface IServiceProviderRegistryStats
+ */
+export interface IServiceProviderRegistryStats {
+  /**
+   * Number of registered, non-deferred providers.
+   */
+  totalProviders: number;
+
+  /**
+   * Number of deferred providers not loaded yet.
+   */
+  deferredProviders: number;
+
+  /**
+   * Number of terminable providers.
+   */
+  terminableProviders: number;
+
+  /**
+   * Number of booted providers.
+   */
+  bootedProviders: number;
+
+  /**
+   * Number of providers skipped at registration.
+   */
+  skippedProviders: number;
+
+  /**
+   * Number of providers that failed to boot without failing the boot.
+   */
+  failedProviders: number;
+
+  /**
+   * Total time spent registering providers, in milliseconds.
+   */
+  registrationTime: number;
+
+  /**
+   * Time the boot took, in milliseconds.
+   */
+  bootTime: number;
+
+  /**
+   * The providers skipped at registration, and why.
+   */
+  skipped: IProviderStatusEntry[];
+
+  /**
+   * The providers that failed to boot, and why.
+   */
+  failed: IProviderStatusEntry[];
+}
\ No newline at end of file
@@ -2,6 +2,8 @@ import { IServiceProvider } from './service-provider.interface';
 import { IDeferredServiceProvider } from './deferred-service-provider.interface';
 import { ITerminableServiceProvider } from './terminable-service-provider.interface';
 import { IProviderConfig } from './provider-config.interface';
+import { IBootOptions, IBootTimelineEntry } from './boot-options.interface';
+import { IServiceProviderRegistryStats } from './service-provider-registry-stats.interface';
 
 /**
  * Interface for service provider registry that manages all provider operations.
@@ -22,9 +24,18 @@ export interface IServiceProviderRegistry {
   /**
    * Boot all registered service providers.
    * 
+   * @param options - Optional boot options, such as the failure policy
    * @returns Promise<void>
    */
-  boot(): Promise<void>;
+  boot(options?: IBootOptions): Promise<void>;
+
+  /**
+   * Boot a registered provider by name, e.g. one registered with `autoboot: false`.
+   * 
+   * @param name - The provider name
+   * @returns Promise<void>
+   */
+  bootProvider(name: string): Promise<void>;
 
   /**
    * Terminate all terminable service providers.
@@ -42,6 +53,15 @@ export interface IServiceProviderRegistry {
    */
   resolve<T>(identifier: string | symbol): T;
 
+  /**
+   * Get a service from the container, waiting for deferred providers being loaded.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   */
+  resolveAsync<T>(identifier: string | symbol): Promise<T>;
+
   /**
    * Check if a service is available (including deferred providers).
    * 
@@ -71,6 +91,21 @@ export interface IServiceProviderRegistry {
    */
   getTerminableProviders(): ITerminableServiceProvider[];
 
+  /**
+   * Get the boot timeline, one entry per provider that booted or failed, in start order.
+   * 
+   * @returns IBootTimelineEntry[] - The boot timeline
+   */
+  getBootTimeline(): IBootTimelineEntry[];
+
+  /**
+   * Get registry statistics, including the providers skipped at registration
+   * and the providers that failed to boot, and why.
+   * 
+   * @returns IServiceProviderRegistryStats - Registry statistics
+   */
+  getStats(): IServiceProviderRegistryStats;
+
   /**
    * Check if the registry has been booted.
    * 
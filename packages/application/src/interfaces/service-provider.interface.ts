@@ -20,4 +20,35 @@ export interface IServiceProvider {
    * @returns void | Promise<void>
    */
   boot(): void | Promise<void>;
+
+  /**
+   * Run the callbacks registered to run before the provider boots.
+   * Called by the registry right before boot().
+   * 
+   * @returns Promise<void>
+   */
+  callBootingCallbacks?(): Promise<void>;
+
+  /**
+   * Run the callbacks registered to run after the provider has booted.
+   * Called by the registry right after boot().
+   * 
+   * @returns Promise<void>
+   */
+  callBootedCallbacks?(): Promise<void>;
+}
+
+/**
+ * Constructor of a service provider class.
+ * Application.register() instantiates provider classes with the application instance.
+ * 
+ * @interface IServiceProviderConstructor
+ */
+export interface IServiceProviderConstructor {
+  /**
+   * Create the service provider for an application.
+   * 
+   * @param app - The application instance
+   */
+  new (app: any): IServiceProvider;
 }
\ No newline at end of file
@@ -15,6 +15,21 @@ export abstract class BaseServiceProvider implements IServiceProvider {
    */
   protected app: any;
 
+  /**
+   * Callbacks run before the provider boots.
+   */
+  private bootingCallbacks: Array<() => void | Promise<void>> = [];
+
+  /**
+   * Callbacks run after the provider has booted.
+   */
+  private bootedCallbacks: Array<() => void | Promise<void>> = [];
+
+  /**
+   * Indicates whether the booted callbacks have run.
+   */
+  private hasBooted = false;
+
   /**
    * Creates a new service provider instance.
    * 
@@ -43,6 +58,61 @@ export abstract class BaseServiceProvider implements IServiceProvider {
     // Default implementation - override if needed
   }
 
+  /**
+   * Register a callback to run before the provider boots.
+   * Typically called from register().
+   * 
+   * @param callback - The callback to run
+   * @returns this - The provider for method chaining
+   */
+  booting(callback: () => void | Promise<void>): this {
+    this.bootingCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Register a callback to run after the provider has booted.
+   * Callbacks registered once the provider has booted run immediately.
+   * 
+   * @param callback - The callback to run
+   * @returns this - The provider for method chaining
+   */
+  booted(callback: () => void | Promise<void>): this {
+    if (this.hasBooted) {
+      (async () => callback())().catch(error =>
+        console.error(`Error in booted callback of ${this.constructor.name}:`, error)
+      );
+    } else {
+      this.bootedCallbacks.push(callback);
+    }
+
+    return this;
+  }
+
+  /**
+   * Run the callbacks registered to run before the provider boots.
+   * 
+   * @returns Promise<void>
+   */
+  async callBootingCallbacks(): Promise<void> {
+    for (const callback of this.bootingCallbacks) {
+      await callback();
+    }
+  }
+
+  /**
+   * Run the callbacks registered to run after the provider has booted.
+   * 
+   * @returns Promise<void>
+   */
+  async callBootedCallbacks(): Promise<void> {
+    this.hasBooted = true;
+
+    for (const callback of this.bootedCallbacks) {
+      await callback();
+    }
+  }
+
   /**
    * Get a service from the application container.
    * Convenience method for accessing registered services.
@@ -3,4 +3,5 @@
  * Provides centralized access to application utility functionality.
  */
 
-export * from './service-provider-registry';
\ No newline at end of file
+export * from './service-provider-registry';
+export * from './provider-manifest';
\ No newline at end of file
@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { IServiceProviderConstructor } from '../interfaces/service-provider.interface';
+import {
+  IPackageDiscoveryConfig,
+  IProviderManifestFile,
+  ProviderManifestData,
+} from '../interfaces/provider-manifest.interface';
+
+/**
+ * Manifest of the service providers packages declare in their package.json.
+ * Scans workspace packages and node_modules for a `tsvel.providers` field and
+ * caches the result in a JSON file, in the spirit of Laravel package discovery.
+ * The cache is rebuilt when the package.json files, workspace settings,
+ * lockfiles or installed packages it was built from change.
+ * 
+ * @class ProviderManifest
+ */
+export class ProviderManifest {
+  /**
+   * Default location of the cached manifest, relative to the base path.
+   */
+  static readonly DEFAULT_PATH = path.join('.tsvel', 'providers.json');
+
+  /**
+   * Files, relative to the base path, whose changes invalidate the cached manifest,
+   * besides the package.json of each workspace package.
+   */
+  private static readonly INPUT_FILES = [
+    'package.json',
+    'pnpm-workspace.yaml',
+    'package-lock.json',
+    'npm-shrinkwrap.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lockb',
+    'node_modules',
+    path.join('node_modules', '.package-lock.json'),
+    path.join('node_modules', '.modules.yaml'),
+    path.join('node_modules', '.yarn-integrity'),
+  ];
+
+  /**
+   * Absolute location of the cached manifest file.
+   */
+  private readonly manifestPath: string;
+
+  /**
+   * The manifest loaded from cache or built during this process.
+   */
+  private manifest: ProviderManifestData | null = null;
+
+  /**
+   * Creates a new provider manifest.
+   * 
+   * @param basePath - The application root containing its package.json
+   * @param manifestPath - Location of the cached manifest file, relative to the base path or absolute
+   */
+  constructor(private readonly basePath: string, manifestPath: string = ProviderManifest.DEFAULT_PATH) {
+    this.manifestPath = path.resolve(basePath, manifestPath);
+  }
+
+  /**
+   * Get the discovered providers keyed by package name.
+   * Reads the cached manifest, building it first if it does not exist or is stale.
+   * 
+   * @returns ProviderManifestData - The provider manifest
+   */
+  getManifest(): ProviderManifestData {
+    if (this.manifest) {
+      return this.manifest;
+    }
+
+    if (fs.existsSync(this.manifestPath)) {
+      let cached: Partial<IProviderManifestFile>;
+
+      try {
+        cached = JSON.parse(fs.readFileSync(this.manifestPath, 'utf8'));
+      } catch (error) {
+        throw new Error(
+          `Failed to read provider manifest '${this.manifestPath}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (cached.packages && cached.fingerprint === this.getFingerprint()) {
+        this.manifest = cached.packages;
+        return this.manifest;
+      }
+    }
+
+    return this.build();
+  }
+
+  /**
+   * Scan the workspace and node_modules and write a fresh manifest.
+   * Packages excluded by the application's `tsvel.dont-discover` are left out.
+   * 
+   * @returns ProviderManifestData - The provider manifest
+   */
+  build(): ProviderManifestData {
+    const root = ProviderManifest.readPackage(this.basePath);
+    const dontDiscover = (root?.tsvel as IPackageDiscoveryConfig | undefined)?.['dont-discover'] ?? [];
+    const manifest: ProviderManifestData = {};
+
+    if (dontDiscover !== '*') {
+      for (const directory of this.findPackageDirectories()) {
+        const pkg = ProviderManifest.readPackage(directory);
+        const providers = (pkg?.tsvel as IPackageDiscoveryConfig | undefined)?.providers;
+
+        if (!pkg?.name || !Array.isArray(providers) || providers.length === 0) {
+          continue;
+        }
+
+        if (manifest[pkg.name] || dontDiscover.includes(pkg.name)) {
+          continue;
+        }
+
+        manifest[pkg.name] = {
+          path: path.relative(this.basePath, directory) || '.',
+          providers,
+        };
+      }
+    }
+
+    const file: IProviderManifestFile = { fingerprint: this.getFingerprint(), packages: manifest };
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+    fs.writeFileSync(this.manifestPath, JSON.stringify(file, null, 2));
+    this.manifest = manifest;
+
+    return manifest;
+  }
+
+  /**
+   * Load the provider classes listed in the manifest, in manifest order.
+   * 
+   * @returns IServiceProviderConstructor[] - The discovered provider classes
+   * @throws Error if a listed provider cannot be loaded
+   */
+  getProviders(): IServiceProviderConstructor[] {
+    const providers: IServiceProviderConstructor[] = [];
+
+    for (const [name, entry] of Object.entries(this.getManifest())) {
+      const directory = path.resolve(this.basePath, entry.path);
+      const load = createRequire(path.join(directory, 'package.json'));
+
+      for (const provider of entry.providers) {
+        try {
+          const [specifier, exportName] = provider.includes('#')
+            ? provider.split('#', 2)
+            : [directory, provider];
+          const exported = load(specifier.startsWith('.') ? path.resolve(directory, specifier) : specifier)[exportName];
+
+          if (typeof exported !== 'function') {
+            throw new Error(`export '${exportName}' is not a service provider class`);
+          }
+
+          providers.push(exported as IServiceProviderConstructor);
+        } catch (error) {
+          throw new Error(
+            `Failed to load provider '${provider}' from '${name}': ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Remove the cached manifest so the next discovery rebuilds it.
+   * 
+   * @returns void
+   */
+  clear(): void {
+    this.manifest = null;
+    fs.rmSync(this.manifestPath, { force: true });
+  }
+
+  /**
+   * Find the directories of workspace packages and installed packages.
+   * Workspace packages come first so they win over installed copies.
+   * 
+   * @private
+   * @returns string[] - Absolute package directories
+   */
+  private findPackageDirectories(): string[] {
+    const directories = this.findWorkspaceDirectories();
+
+    const modules = path.join(this.basePath, 'node_modules');
+    for (const name of ProviderManifest.listDirectories(modules)) {
+      if (name.startsWith('@')) {
+        directories.push(...ProviderManifest.expand(path.join(modules, name, '*')));
+      } else if (!name.startsWith('.')) {
+        directories.push(path.join(modules, name));
+      }
+    }
+
+    return directories;
+  }
+
+  /**
+   * Find the directories of workspace packages.
+   * 
+   * @private
+   * @returns string[] - Absolute workspace package directories
+   */
+  private findWorkspaceDirectories(): string[] {
+    return this.getWorkspacePatterns().flatMap(pattern => ProviderManifest.expand(path.resolve(this.basePath, pattern)));
+  }
+
+  /**
+   * Fingerprint the files discovery depends on, from their modification times and sizes.
+   * Installing or removing packages touches the lockfile or node_modules, and
+   * editing `tsvel` fields touches a package.json.
+   * 
+   * @private
+   * @returns string - The fingerprint
+   */
+  private getFingerprint(): string {
+    const files = [
+      ...ProviderManifest.INPUT_FILES.map(file => path.join(this.basePath, file)),
+      ...this.findWorkspaceDirectories().map(directory => path.join(directory, 'package.json')),
+    ];
+    const hash = createHash('sha1');
+
+    for (const file of files) {
+      try {
+        const stats = fs.statSync(file);
+        hash.update(`${file}:${stats.mtimeMs}:${stats.size}\n`);
+      } catch {
+        hash.update(`${file}:missing\n`);
+      }
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Get the workspace patterns from package.json `workspaces` or pnpm-workspace.yaml.
+   * 
+   * @private
+   * @returns string[] - Workspace directory patterns
+   */
+  private getWorkspacePatterns(): string[] {
+    const workspaces = ProviderManifest.readPackage(this.basePath)?.workspaces;
+    const patterns: string[] = Array.isArray(workspaces) ? [...workspaces] : [...(workspaces?.packages ?? [])];
+    const pnpmWorkspace = path.join(this.basePath, 'pnpm-workspace.yaml');
+
+    if (fs.existsSync(pnpmWorkspace)) {
+      const block = /^packages:[^\n]*\n((?:[ \t]+[^\n]*\n?|[ \t]*\n)*)/m.exec(fs.readFileSync(pnpmWorkspace, 'utf8'));
+      for (const match of (block?.[1] ?? '').matchAll(/^\s*-\s*["']?([^"'#\s]+)["']?/gm)) {
+        patterns.push(match[1]);
+      }
+    }
+
+    return patterns.filter(pattern => !pattern.startsWith('!'));
+  }
+
+  /**
+   * Expand a directory pattern ending in `*` to the directories it matches.
+   * 
+   * @private
+   * @static
+   * @param pattern - Absolute directory, optionally ending in `/*`
+   * @returns string[] - Matching directories
+   */
+  private static expand(pattern: string): string[] {
+    if (path.basename(pattern) !== '*') {
+      return [pattern];
+    }
+
+    const parent = path.dirname(pattern);
+    return ProviderManifest.listDirectories(parent).map(name => path.join(parent, name));
+  }
+
+  /**
+   * List the subdirectories of a directory, following symlinks.
+   * 
+   * @private
+   * @static
+   * @param directory - The directory to list
+   * @returns string[] - Subdirectory names, or an empty array if the directory does not exist
+   */
+  private static listDirectories(directory: string): string[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() || entry.isSymbolicLink())
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  /**
+   * Read the package.json in a directory.
+   * 
+   * @private
+   * @static
+   * @param directory - The package directory
+   * @returns Record<string, any> | null - The parsed package.json, or null if missing or invalid
+   */
+  private static readPackage(directory: string): Record<string, any> | null {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a new provider manifest instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param basePath - The application root containing its package.json
+   * @param manifestPath - Location of the cached manifest file, relative to the base path or absolute
+   * @returns ProviderManifest - A new provider manifest
+   */
+  static make(basePath: string, manifestPath?: string): ProviderManifest {
+    return new ProviderManifest(basePath, manifestPath);
+  }
+}
\ No newline at end of file
@@ -1,9 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Container } from 'inversify';
+import { ResolutionError } from '@tsvel/container';
+import { IEventDispatcher } from '@tsvel/events';
 import { IServiceProvider } from '../interfaces/service-provider.interface';
 import { IDeferredServiceProvider } from '../interfaces/deferred-service-provider.interface';
 import { ITerminableServiceProvider } from '../interfaces/terminable-service-provider.interface';
 import { IProviderConfig } from '../interfaces/provider-config.interface';
 import { IServiceProviderRegistry } from '../interfaces/service-provider-registry.interface';
+import { IProviderEvent } from '../interfaces/provider-event.interface';
+import { IBootOptions, IBootTimelineEntry } from '../interfaces/boot-options.interface';
+import { IServiceProviderRegistryStats } from '../interfaces/service-provider-registry-stats.interface';
+import { getServiceProviderOptions } from '../decorators/service-provider-metadata';
 
 /**
  * Service provider registry that manages all provider operations.
@@ -18,6 +25,16 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
    */
   private readonly container: Container;
 
+  /**
+   * The environment providers are registered for.
+   */
+  private readonly environment: string;
+
+  /**
+   * The event dispatcher receiving the provider lifecycle events, if any.
+   */
+  private readonly events?: IEventDispatcher;
+
   /**
    * Registered service providers.
    */
@@ -38,6 +55,57 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
    */
   private providerConfigs: Map<string, IProviderConfig> = new Map();
 
+  /**
+   * Service identifiers bound by each provider while registering.
+   */
+  private providedServices: Map<string, (string | symbol)[]> = new Map();
+
+  /**
+   * Registrations still running because the provider's register() is async,
+   * settling with the error of a failed registration.
+   */
+  private pendingRegistrations: Promise<Error | void>[] = [];
+
+  /**
+   * Service identifiers bound by the registration running in the current async context.
+   */
+  private registrationBindings = new AsyncLocalStorage<(string | symbol)[]>();
+
+  /**
+   * Deferred providers still being loaded, by provider name.
+   */
+  private loadingProviders: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Providers skipped at registration, with the reason they were skipped.
+   */
+  private skippedProviders: Map<string, string> = new Map();
+
+  /**
+   * Names of the providers that have been booted, in boot order.
+   */
+  private bootedProviderNames: Set<string> = new Set();
+
+  /**
+   * Providers that failed to boot without failing the boot, with the error message.
+   */
+  private failedProviders: Map<string, string> = new Map();
+
+  /**
+   * Names of the providers already terminated by a boot rollback.
+   */
+  private terminatedProviderNames: Set<string> = new Set();
+
+  /**
+   * Boot timeline, one entry per provider that booted or failed.
+   */
+  private bootTimeline: IBootTimelineEntry[] = [];
+
+  /**
+   * When the registry started booting, the origin of the boot timeline.
+   */
+  private bootStartedAt = 0;
+
   /**
    * Indicates whether the registry has been booted.
    */
@@ -56,6 +124,8 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     deferredProviders: 0,
     terminableProviders: 0,
     bootedProviders: 0,
+    skippedProviders: 0,
+    failedProviders: 0,
     registrationTime: 0,
     bootTime: 0,
   };
@@ -64,15 +134,24 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
    * Creates a new service provider registry instance.
    * 
    * @param container - The dependency injection container
+   * @param environment - The current environment, defaults to NODE_ENV
+   * @param events - Optional event dispatcher receiving the provider lifecycle events
    */
-  constructor(container: Container) {
+  constructor(container: Container, environment?: string, events?: IEventDispatcher) {
     this.container = container;
+    this.environment = environment || process.env.NODE_ENV || 'development';
+    this.events = events;
     this.setupContainerBindings();
+    this.setupBindingRecorder();
   }
 
   /**
    * Register a service provider with the registry.
-   * Handles provider classification and configuration.
+   * Handles provider classification and configuration. Options from the
+   * @ServiceProvider decorator are merged into the config, with the config
+   * taking precedence. Providers restricted to other environments are skipped
+   * and reported by getStats(). Fires `provider.registering` and
+   * `provider.registered`, or `provider.failed`, without waiting for listeners.
    * 
    * @param provider - The service provider to register
    * @param config - Optional configuration for the provider
@@ -81,11 +160,29 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
   register(provider: IServiceProvider, config: IProviderConfig = {}): this {
     const startTime = Date.now();
     const providerName = provider.constructor.name;
+    config = { ...getServiceProviderOptions(provider.constructor), ...config };
 
     try {
       // Validate provider
       this.validateProvider(provider);
 
+      // Skip providers restricted to other environments
+      const { environment: environments } = config;
+      if (environments !== undefined && !this.matchesEnvironment(environments)) {
+        this.skippedProviders.set(
+          providerName,
+          `environment '${this.environment}' is not one of: ${([] as string[]).concat(environments).join(', ')}`
+        );
+        this.stats.skippedProviders = this.skippedProviders.size;
+
+        // Log skipped provider in development
+        if (process.env.NODE_ENV === 'development') {
+          console.debug(`Skipped provider: ${providerName} (${this.skippedProviders.get(providerName)})`);
+        }
+
+        return this;
+      }
+
       // Store provider configuration
       this.providerConfigs.set(providerName, config);
 
@@ -114,12 +211,7 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
 
       // Register services if not deferred
       if (!config.deferred) {
-        provider.register();
-        
-        // Log provider registration in development
-        if (process.env.NODE_ENV === 'development') {
-          console.debug(`Registered provider: ${providerName}`);
-        }
+        this.registerServices(providerName, provider, startTime);
       }
 
       // Update registration time statistics
@@ -127,30 +219,85 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
 
       return this;
     } catch (error) {
+      void this.fireProviderEvent('provider.failed', {
+        provider: providerName,
+        phase: 'register',
+        time: Date.now() - startTime,
+        error,
+      });
       throw new Error(`Failed to register provider '${providerName}': ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
    * Boot all registered service providers.
-   * Handles provider sorting by priority and sequential booting.
+   * Providers boot after the providers they depend on, then by priority, sequentially
+   * unless a concurrency above 1 is given, in which case the providers of each
+   * dependency wave boot concurrently. Providers registered with `autoboot: false`
+   * are left for bootProvider(). A failing or timed out provider either fails the
+   * boot, rolling back the terminable providers already booted, or is marked failed,
+   * depending on the failure policy and whether the provider is optional. Failed
+   * providers are reported by getStats(), boot times by getBootTimeline().
    * 
+   * @param options - Optional boot options, such as the failure policy and concurrency
    * @returns Promise<void>
    */
-  async boot(): Promise<void> {
+  async boot(options: IBootOptions = {}): Promise<void> {
     if (this.booted) {
       return;
     }
 
     const startTime = Date.now();
+    const failurePolicy = options.failurePolicy ?? 'failFast';
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+    this.bootStartedAt = startTime;
 
     try {
-      // Sort providers by priority
-      const sortedProviders = this.getSortedProviders();
+      await this.waitForRegistrations();
+
+      // Sort providers by dependencies, then priority
+      const sortedProviders = this.getSortedProviders().filter(
+        provider => this.providerConfigs.get(provider.constructor.name)?.autoboot !== false
+      );
+      const waves = this.getBootWaves(sortedProviders);
+      const waveOf = new Map(waves.flatMap((wave, index) => wave.map(provider => [provider.constructor.name, index] as const)));
+
+      // Boot wave by wave when booting concurrently, otherwise one provider at a time
+      const batches = concurrency > 1 ? waves : sortedProviders.map(provider => [provider]);
+      let failure: { error: unknown } | undefined;
+
+      for (const batch of batches) {
+        await ServiceProviderRegistry.runConcurrently(batch, concurrency, async provider => {
+          const providerName = provider.constructor.name;
+          const config = this.providerConfigs.get(providerName);
+
+          // Start no further providers once the boot has failed
+          if (failure) {
+            return;
+          }
+
+          try {
+            await this.bootInstance(provider, waveOf.get(providerName), config?.bootTimeout ?? options.timeout);
+          } catch (error) {
+            if (failurePolicy !== 'continue' && !config?.optional) {
+              failure ??= { error };
+              return;
+            }
+
+            this.failedProviders.set(providerName, error instanceof Error ? error.message : String(error));
+            this.stats.failedProviders = this.failedProviders.size;
 
-      // Boot all registered providers
-      for (const provider of sortedProviders) {
-        await this.bootProvider(provider);
+            // Log failed provider in development
+            if (process.env.NODE_ENV === 'development') {
+              console.debug(`Failed provider: ${providerName} (${this.failedProviders.get(providerName)})`);
+            }
+          }
+        });
+
+        if (failure) {
+          await this.rollback();
+          throw failure.error;
+        }
       }
 
       this.booted = true;
@@ -165,6 +312,41 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     }
   }
 
+  /**
+   * Boot a registered provider by name, after the providers it depends on.
+   * Used for providers registered with `autoboot: false`; booting an already booted provider does nothing.
+   * Dependencies that failed to boot are not retried, so the provider fails.
+   * 
+   * @param name - The provider name
+   * @returns Promise<void>
+   * @throws Error if the provider is not registered
+   */
+  async bootProvider(name: string): Promise<void> {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      const reason = this.skippedProviders.get(name);
+      throw new Error(
+        reason ? `Cannot boot provider '${name}': skipped because ${reason}` : `Cannot boot provider '${name}': provider is not registered`
+      );
+    }
+
+    await this.waitForRegistrations();
+
+    // Collect the provider and the providers it depends on, directly or not
+    const required = new Set([name]);
+    for (const providerName of required) {
+      this.getProviderDependencies(providerName).forEach(dependency => required.add(dependency));
+    }
+
+    for (const dependency of this.getSortedProviders()) {
+      const dependencyName = dependency.constructor.name;
+      if (required.has(dependencyName) && (dependencyName === name || !this.failedProviders.has(dependencyName))) {
+        await this.bootInstance(dependency);
+      }
+    }
+  }
+
   /**
    * Terminate all terminable service providers.
    * Handles graceful shutdown and resource cleanup.
@@ -179,9 +361,10 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     this.terminating = true;
 
     try {
-      // Terminate all terminable providers in parallel
-      const terminationPromises = Array.from(this.terminableProviders.values()).map(
-        async (provider) => {
+      // Terminate all terminable providers not already terminated by a rollback, in parallel
+      const terminationPromises = Array.from(this.terminableProviders.values())
+        .filter(provider => !this.terminatedProviderNames.has(provider.constructor.name))
+        .map(async (provider) => {
           try {
             await provider.terminate();
             
@@ -192,8 +375,7 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
           } catch (error) {
             console.error(`Error terminating provider ${provider.constructor.name}:`, error);
           }
-        }
-      );
+        });
 
       await Promise.all(terminationPromises);
 
@@ -216,11 +398,41 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
    */
   resolve<T>(identifier: string | symbol): T {
     try {
-      // Check if we need to load a deferred provider
+      // Check if we need to load a deferred provider; its boot cannot be awaited here
+      this.loadDeferredProviderIfNeeded(identifier)?.catch(error => {
+        console.error(`Failed to load deferred provider for service '${String(identifier)}':`, error);
+      });
+
+      return this.container.get<T>(identifier);
+    } catch (error) {
+      // Deferred providers were checked before the container was asked
+      if (error instanceof ResolutionError) {
+        throw error.withAttempt('deferred provider');
+      }
+      throw new Error(`Failed to resolve service '${String(identifier)}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get a service from the container, waiting for deferred providers being loaded.
+   * A deferred provider of the service is registered and, if the providers have
+   * booted, booted before the service is resolved.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   * @throws Error if the deferred provider fails to load
+   */
+  async resolveAsync<T>(identifier: string | symbol): Promise<T> {
+    try {
       this.loadDeferredProviderIfNeeded(identifier);
+      await Promise.all(this.loadingProviders.values());
 
       return this.container.get<T>(identifier);
     } catch (error) {
+      if (error instanceof ResolutionError) {
+        throw error.withAttempt('deferred provider');
+      }
       throw new Error(`Failed to resolve service '${String(identifier)}': ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -292,6 +504,17 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     return this.terminating;
   }
 
+  /**
+   * Get the boot timeline, one entry per provider that booted or failed, in start order.
+   * Start times are relative to the start of the boot, which makes slow providers
+   * and the waves waiting on them easy to spot.
+   * 
+   * @returns IBootTimelineEntry[] - The boot timeline
+   */
+  getBootTimeline(): IBootTimelineEntry[] {
+    return [...this.bootTimeline].sort((a, b) => a.start - b.start);
+  }
+
   /**
    * Clear all providers from the registry.
    * Resets the registry to its initial state.
@@ -303,6 +526,15 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     this.deferredProviders.clear();
     this.terminableProviders.clear();
     this.providerConfigs.clear();
+    this.providedServices.clear();
+    this.pendingRegistrations = [];
+    this.loadingProviders.clear();
+    this.skippedProviders.clear();
+    this.bootedProviderNames.clear();
+    this.failedProviders.clear();
+    this.terminatedProviderNames.clear();
+    this.bootTimeline = [];
+    this.bootStartedAt = 0;
     
     this.booted = false;
     this.terminating = false;
@@ -312,6 +544,8 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
       deferredProviders: 0,
       terminableProviders: 0,
       bootedProviders: 0,
+      skippedProviders: 0,
+      failedProviders: 0,
       registrationTime: 0,
       bootTime: 0,
     };
@@ -324,11 +558,16 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
 
   /**
    * Get registry statistics for monitoring and debugging.
+   * Includes the providers skipped at registration and the providers that failed to boot, and why.
    * 
-   * @returns object - Registry statistics
+   * @returns IServiceProviderRegistryStats - Registry statistics
    */
-  getStats(): typeof this.stats {
-    return { ...this.stats };
+  getStats(): IServiceProviderRegistryStats {
+    return {
+      ...this.stats,
+      skipped: Array.from(this.skippedProviders, ([name, reason]) => ({ name, reason })),
+      failed: Array.from(this.failedProviders, ([name, reason]) => ({ name, reason })),
+    };
   }
 
   /**
@@ -346,6 +585,24 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
     this.container.bind<Container>('Container').toConstantValue(this.container);
   }
 
+  /**
+   * Setup the recording of the service identifiers bound by each provider.
+   * The container's bind() is wrapped once; a binding is recorded for the
+   * registration running in the async context that made it, so bindings made
+   * elsewhere while an async register() is pending are not attributed to it.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupBindingRecorder(): void {
+    const bind = this.container.bind;
+
+    this.container.bind = ((identifier: any) => {
+      this.registrationBindings.getStore()?.push(identifier);
+      return bind.call(this.container, identifier);
+    }) as typeof bind;
+  }
+
   /**
    * Validate a service provider before registration.
    * Ensures the provider implements the required interface.
@@ -393,23 +650,162 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
 
   /**
    * Boot a single provider with error handling.
+   * Providers are booted at most once, between their booting and booted callbacks.
+   * A provider exceeding its timeout fails; its boot() keeps running but the provider
+   * is not marked booted, and a later boot() failure is logged. Fires `provider.booting` and `provider.booted`, or
+   * `provider.failed`, and records the boot in the boot timeline.
    * 
    * @private
    * @param provider - The provider to boot
+   * @param wave - Optional dependency wave of the provider, for the boot timeline
+   * @param timeout - Optional boot timeout in milliseconds
    * @returns Promise<void>
    */
-  private async bootProvider(provider: IServiceProvider): Promise<void> {
+  private async bootInstance(provider: IServiceProvider, wave?: number, timeout?: number): Promise<void> {
+    const providerName = provider.constructor.name;
+
+    if (this.bootedProviderNames.has(providerName)) {
+      return;
+    }
+
+    const startTime = Date.now();
+    await this.fireProviderEvent('provider.booting', { provider: providerName, phase: 'boot' });
+
     try {
-      await provider.boot();
+      const failedDependency = this.getProviderDependencies(providerName).find(dependency =>
+        this.failedProviders.has(dependency)
+      );
+      if (failedDependency) {
+        throw new Error(`dependency '${failedDependency}' failed to boot`);
+      }
+
+      const booting = (async () => {
+        await provider.callBootingCallbacks?.();
+        await provider.boot();
+      })();
+      await (timeout
+        ? ServiceProviderRegistry.withTimeout(booting, timeout, lateError =>
+            console.error(`Error booting provider ${providerName} after its boot timed out:`, lateError)
+          )
+        : booting);
+
+      this.bootedProviderNames.add(providerName);
       this.stats.bootedProviders++;
+      await provider.callBootedCallbacks?.();
+      this.recordBoot(providerName, wave, startTime, 'booted');
       
       // Log provider boot in development
       if (process.env.NODE_ENV === 'development') {
-        console.debug(`Booted provider: ${provider.constructor.name}`);
+        console.debug(`Booted provider: ${providerName}`);
       }
     } catch (error) {
-      throw new Error(`Failed to boot provider '${provider.constructor.name}': ${error instanceof Error ? error.message : String(error)}`);
+      this.recordBoot(providerName, wave, startTime, 'failed', error instanceof Error ? error.message : String(error));
+      await this.fireProviderEvent('provider.failed', {
+        provider: providerName,
+        phase: 'boot',
+        time: Date.now() - startTime,
+        error,
+      });
+      throw new Error(`Failed to boot provider '${providerName}': ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    await this.fireProviderEvent('provider.booted', { provider: providerName, phase: 'boot', time: Date.now() - startTime });
+  }
+
+  /**
+   * Record a provider boot in the boot timeline.
+   * 
+   * @private
+   * @param provider - The provider name
+   * @param wave - The dependency wave of the provider, if booted by boot()
+   * @param startTime - When the provider started booting
+   * @param status - Whether the provider booted or failed
+   * @param error - The error message, for failed providers
+   * @returns void
+   */
+  private recordBoot(
+    provider: string,
+    wave: number | undefined,
+    startTime: number,
+    status: IBootTimelineEntry['status'],
+    error?: string
+  ): void {
+    this.bootTimeline.push({
+      provider,
+      ...(wave !== undefined && { wave }),
+      start: startTime - (this.bootStartedAt || startTime),
+      duration: Date.now() - startTime,
+      status,
+      ...(error !== undefined && { error }),
+    });
+  }
+
+  /**
+   * Terminate the terminable providers booted so far, in reverse boot order.
+   * Used when a provider fails the boot; termination failures are reported and skipped.
+   * 
+   * @private
+   * @returns Promise<void>
+   */
+  private async rollback(): Promise<void> {
+    for (const providerName of Array.from(this.bootedProviderNames).reverse()) {
+      const provider = this.terminableProviders.get(providerName);
+      if (!provider || this.terminatedProviderNames.has(providerName)) {
+        continue;
+      }
+
+      this.terminatedProviderNames.add(providerName);
+
+      try {
+        await provider.terminate();
+
+        // Log provider rollback in development
+        if (process.env.NODE_ENV === 'development') {
+          console.debug(`Rolled back provider: ${providerName}`);
+        }
+      } catch (error) {
+        console.error(`Error terminating provider ${providerName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Dispatch a provider lifecycle event, if an event dispatcher is available.
+   * Listener failures are logged and reported as an `application.error` event of
+   * type `listener`, without interrupting the provider lifecycle.
+   * 
+   * @private
+   * @param event - The event name
+   * @param payload - The event payload
+   * @returns Promise<void>
+   */
+  private async fireProviderEvent(event: string, payload: IProviderEvent): Promise<void> {
+    if (!this.events) {
+      return;
+    }
+
+    try {
+      await this.events.dispatch(event, payload);
+    } catch (error) {
+      console.error(`Error in '${event}' listener:`, error);
+
+      try {
+        await this.events.dispatch('application.error', { type: 'listener', event, error });
+      } catch (reportError) {
+        console.error(`Error in 'application.error' listener:`, reportError);
+      }
+    }
+  }
+
+  /**
+   * Check if the current environment is one of the given environments.
+   * 
+   * @private
+   * @param environments - The allowed environment or environments
+   * @returns boolean - True if the provider may be registered
+   */
+  private matchesEnvironment(environments: string | string[]): boolean {
+    return ([] as string[]).concat(environments).includes(this.environment);
   }
 
   /**
@@ -435,34 +831,237 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
   }
 
   /**
-   * Get providers sorted by priority.
-   * Higher priority providers are booted first.
+   * Get providers in boot order.
+   * Providers are topologically sorted over their declared dependencies; among
+   * providers whose dependencies have booted, higher priority boots first and
+   * registration order breaks remaining ties.
    * 
    * @private
    * @returns IServiceProvider[] - Sorted array of providers
+   * @throws Error if a dependency is missing or dependencies form a cycle
    */
   private getSortedProviders(): IServiceProvider[] {
-    const providers = Array.from(this.providers.values());
-    
-    return providers.sort((a, b) => {
-      const configA = this.providerConfigs.get(a.constructor.name);
-      const configB = this.providerConfigs.get(b.constructor.name);
-      
-      const priorityA = configA?.priority || 0;
-      const priorityB = configB?.priority || 0;
-      
-      return priorityB - priorityA; // Higher priority first
+    const remaining = new Map(this.providers);
+    const dependencies = new Map<string, string[]>();
+    const priority = (name: string) => this.providerConfigs.get(name)?.priority || 0;
+    const sorted: IServiceProvider[] = [];
+
+    for (const name of remaining.keys()) {
+      dependencies.set(name, this.getProviderDependencies(name));
+    }
+
+    while (remaining.size > 0) {
+      const ready = Array.from(remaining.keys()).filter(name =>
+        dependencies.get(name)!.every(dependency => !remaining.has(dependency))
+      );
+
+      if (ready.length === 0) {
+        const cycle = this.findProviderCycle(Array.from(remaining.keys()), dependencies);
+        throw new Error(`Circular provider dependency detected: ${cycle.join(' -> ')}`);
+      }
+
+      const next = ready.reduce((best, name) => (priority(name) > priority(best) ? name : best));
+      sorted.push(remaining.get(next)!);
+      remaining.delete(next);
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Group sorted providers into dependency waves.
+   * A provider belongs to the wave after the latest wave of the providers it depends on,
+   * so the providers of a wave only depend on providers of earlier waves. Dependencies
+   * outside the given providers are ignored. Providers keep their sorted order within a wave.
+   * 
+   * @private
+   * @param sortedProviders - Providers sorted by dependencies, then priority
+   * @returns IServiceProvider[][] - The providers of each wave
+   */
+  private getBootWaves(sortedProviders: IServiceProvider[]): IServiceProvider[][] {
+    const waveOf = new Map<string, number>();
+    const waves: IServiceProvider[][] = [];
+
+    for (const provider of sortedProviders) {
+      const name = provider.constructor.name;
+      const wave = this.getProviderDependencies(name).reduce(
+        (latest, dependency) => (waveOf.has(dependency) ? Math.max(latest, waveOf.get(dependency)! + 1) : latest),
+        0
+      );
+
+      waveOf.set(name, wave);
+      (waves[wave] ??= []).push(provider);
+    }
+
+    return waves;
+  }
+
+  /**
+   * Get the names of the registered providers a provider must boot after.
+   * A dependency names either a provider or a service bound by a provider.
+   * Services already bound or provided by deferred providers need no ordering.
+   * 
+   * @private
+   * @param name - The provider name
+   * @returns string[] - Names of the providers to boot first
+   * @throws Error if a dependency cannot be satisfied
+   */
+  private getProviderDependencies(name: string): string[] {
+    const config = this.providerConfigs.get(name) || {};
+
+    return (config.dependencies || []).flatMap(dependency => {
+      if (typeof dependency === 'string' && this.providers.has(dependency)) {
+        return [dependency];
+      }
+
+      const providers = Array.from(this.providers.entries())
+        .filter(([other, provider]) => other !== name && this.getProvidedServices(other, provider).includes(dependency))
+        .map(([other]) => other);
+
+      if (providers.length > 0) {
+        return providers;
+      }
+
+      if ((typeof dependency === 'string' && this.deferredProviders.has(dependency)) || this.canResolve(dependency)) {
+        return [];
+      }
+
+      throw new Error(
+        `Provider '${name}' depends on '${String(dependency)}', which is neither a registered provider nor a service it provides`
+      );
     });
   }
 
+  /**
+   * Get the services a provider provides.
+   * Includes services bound while registering and any declared `provides` list.
+   * 
+   * @private
+   * @param name - The provider name
+   * @param provider - The provider
+   * @returns (string | symbol)[] - The provided service identifiers
+   */
+  private getProvidedServices(name: string, provider: IServiceProvider): (string | symbol)[] {
+    const declared = (provider as Partial<IDeferredServiceProvider>).provides;
+    return [...(this.providedServices.get(name) || []), ...(Array.isArray(declared) ? declared : [])];
+  }
+
+  /**
+   * Find a dependency cycle among providers that could not be sorted.
+   * 
+   * @private
+   * @param names - Names of the unsorted providers
+   * @param dependencies - Provider dependencies by name
+   * @returns string[] - The cycle, starting and ending with the same provider
+   */
+  private findProviderCycle(names: string[], dependencies: Map<string, string[]>): string[] {
+    const path: string[] = [];
+
+    const visit = (name: string): string[] | null => {
+      const index = path.indexOf(name);
+      if (index >= 0) {
+        return [...path.slice(index), name];
+      }
+
+      path.push(name);
+      for (const dependency of dependencies.get(name) || []) {
+        if (names.includes(dependency)) {
+          const cycle = visit(dependency);
+          if (cycle) {
+            return cycle;
+          }
+        }
+      }
+      path.pop();
+
+      return null;
+    };
+
+    return visit(names[0]) || names;
+  }
+
+  /**
+   * Register a provider's services, recording the service identifiers it binds.
+   * Fires `provider.registering` and `provider.registered`. A sync register() binds
+   * immediately; an async register() is tracked until it settles, and boot() waits
+   * for them all.
+   * 
+   * @private
+   * @param name - The provider name
+   * @param provider - The provider
+   * @param startTime - When the registration started
+   * @returns void
+   */
+  private registerServices(name: string, provider: IServiceProvider, startTime: number): void {
+    const registered = (identifiers: (string | symbol)[]) => {
+      this.providedServices.set(name, identifiers);
+      void this.fireProviderEvent('provider.registered', { provider: name, phase: 'register', time: Date.now() - startTime });
+
+      // Log provider registration in development
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Registered provider: ${name}`);
+      }
+    };
+    const failed = (error: unknown) => {
+      void this.fireProviderEvent('provider.failed', { provider: name, phase: 'register', time: Date.now() - startTime, error });
+      return new Error(`Failed to register provider '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    };
+
+    void this.fireProviderEvent('provider.registering', { provider: name, phase: 'register' });
+
+    const identifiers = this.recordBindings(() => provider.register());
+    if (identifiers instanceof Promise) {
+      // A failed registration settles with its error, rethrown by waitForRegistrations()
+      this.pendingRegistrations.push(identifiers.then(registered, failed));
+    } else {
+      registered(identifiers);
+    }
+  }
+
+  /**
+   * Wait for the registrations of providers with an async register() to settle.
+   * 
+   * @private
+   * @returns Promise<void>
+   * @throws Error if a registration failed
+   */
+  private async waitForRegistrations(): Promise<void> {
+    const pending = this.pendingRegistrations;
+    const error = (await Promise.all(pending)).find(result => result instanceof Error);
+
+    if (error) {
+      throw error;
+    }
+
+    this.pendingRegistrations = this.pendingRegistrations.filter(registration => !pending.includes(registration));
+  }
+
+  /**
+   * Run a provider's registration, recording the service identifiers it binds.
+   * The registration runs in its own async context, so the bindings made after
+   * an await in an async register() are recorded too.
+   * 
+   * @private
+   * @param callback - The registration callback
+   * @returns (string | symbol)[] | Promise<(string | symbol)[]> - The bound service identifiers
+   */
+  private recordBindings(callback: () => void | Promise<void>): (string | symbol)[] | Promise<(string | symbol)[]> {
+    const identifiers: (string | symbol)[] = [];
+    const result = this.registrationBindings.run(identifiers, callback);
+
+    return result instanceof Promise ? result.then(() => identifiers) : identifiers;
+  }
+
   /**
    * Load a deferred provider if it provides the requested service.
+   * The provider is registered and, if the providers have booted, booted once its
+   * registration settles, with its callbacks and lifecycle events like any provider.
    * 
    * @private
    * @param identifier - The service identifier
-   * @returns void
+   * @returns Promise<void> | undefined - The provider's loading, if a provider was loaded
    */
-  private loadDeferredProviderIfNeeded(identifier: string | symbol): void {
+  private loadDeferredProviderIfNeeded(identifier: string | symbol): Promise<void> | undefined {
     for (const [name, provider] of this.deferredProviders.entries()) {
       if (provider.providesService(identifier) && !provider.isLoaded()) {
         try {
@@ -472,29 +1071,89 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
           this.stats.deferredProviders--;
           this.stats.totalProviders++;
 
-          // Register and boot the provider
-          provider.register();
-          if (this.booted) {
-            provider.boot();
-          }
-
           // Handle terminable providers
           if (this.isTerminableProvider(provider)) {
             this.terminableProviders.set(name, provider);
             this.stats.terminableProviders++;
           }
 
+          // Register and boot the provider
+          this.registerServices(name, provider, Date.now());
+          const loading = this.waitForRegistrations()
+            .then(() => (this.booted ? this.bootInstance(provider) : undefined))
+            .catch(error => {
+              this.failedProviders.set(name, error instanceof Error ? error.message : String(error));
+              this.stats.failedProviders = this.failedProviders.size;
+              throw new Error(`Failed to load deferred provider '${name}': ${error instanceof Error ? error.message : String(error)}`);
+            });
+          const settled = () => {
+            this.loadingProviders.delete(name);
+          };
+          this.loadingProviders.set(name, loading);
+          loading.then(settled, settled);
+
           // Log deferred provider loading in development
           if (process.env.NODE_ENV === 'development') {
             console.debug(`Loaded deferred provider: ${name} for service: ${String(identifier)}`);
           }
 
-          break;
+          return loading;
         } catch (error) {
           console.error(`Failed to load deferred provider '${name}':`, error);
         }
       }
     }
+
+    return undefined;
+  }
+
+  /**
+   * Run a task for each item, with at most `limit` tasks running at the same time.
+   * Tasks start in item order.
+   * 
+   * @private
+   * @static
+   * @template T
+   * @param items - The items to run the task for
+   * @param limit - Maximum number of tasks running at the same time
+   * @param task - The task to run
+   * @returns Promise<void>
+   */
+  private static async runConcurrently<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (next < items.length) {
+        await task(items[next++]);
+      }
+    });
+
+    await Promise.all(workers);
+  }
+
+  /**
+   * Reject if a promise does not settle within a timeout.
+   * The promise keeps running after the timeout; a later rejection is passed to
+   * `onLateRejection` rather than left unhandled.
+   * 
+   * @private
+   * @static
+   * @template T
+   * @param promise - The promise to wait for
+   * @param timeout - The timeout in milliseconds
+   * @param onLateRejection - Called if the promise rejects after the timeout
+   * @returns Promise<T> - The promise result
+   * @throws Error if the timeout elapses first
+   */
+  private static withTimeout<T>(promise: Promise<T>, timeout: number, onLateRejection: (error: unknown) => void): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        promise.catch(onLateRejection);
+        reject(new Error(`boot timed out after ${timeout}ms`));
+      }, timeout);
+    });
+
+    return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
   }
 
   /**
@@ -503,9 +1162,11 @@ export class ServiceProviderRegistry implements IServiceProviderRegistry {
    * 
    * @static
    * @param container - The dependency injection container
+   * @param environment - The current environment, defaults to NODE_ENV
+   * @param events - Optional event dispatcher receiving the provider lifecycle events
    * @returns ServiceProviderRegistry - A new registry instance
    */
-  static make(container: Container): ServiceProviderRegistry {
-    return new ServiceProviderRegistry(container);
+  static make(container: Container, environment?: string, events?: IEventDispatcher): ServiceProviderRegistry {
+    return new ServiceProviderRegistry(container, environment, events);
   }
 }
\ No newline at end of file
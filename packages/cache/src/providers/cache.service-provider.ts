@@ -86,7 +86,7 @@ export class CacheServiceProvider extends BaseServiceProvider {
 }
 
 /**
- * Singleton instance of the cache service provider.
- * Provides convenient access to the service provider throughout the application.
+ * The cache service provider, ready to pass to Application.register().
+ * The application instantiates it with itself, e.g. `app.register(cacheServiceProvider)`.
  */
-export const cacheServiceProvider = new CacheServiceProvider(null as any);
\ No newline at end of file
+export const cacheServiceProvider = CacheServiceProvider;
\ No newline at end of file
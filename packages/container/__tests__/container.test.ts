@@ -0,0 +1,1112 @@
+/**
+ * Tests for the container functionality
+ */
+
+import 'reflect-metadata';
+import { injectable, inject } from 'inversify';
+import { Container } from '../src/container';
+import { Inject, InjectAll, InjectAllTagged, InjectLazy, Injectable, Named, Tagged, Priority } from '../src/decorators';
+import { createToken } from '../src/utilities/token';
+import { INJECTION_TOKENS } from '../src/constants/injection-tokens.constant';
+import { ResolutionError } from '../src/errors/resolution-error';
+import { DisposalError } from '../src/errors/disposal-error';
+import { ASYNC_DISPOSE } from '../src/utilities/disposable';
+import type { ILogger } from '@tsvel/logger';
+
+/**
+ * True if two types are identical, telling any apart from other types.
+ */
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+interface IMailer {
+  driver: string;
+}
+
+@injectable()
+class SmtpMailer implements IMailer {
+  driver = 'smtp';
+}
+
+@injectable()
+class UserService {
+  constructor(@inject('IMailer') public mailer: IMailer) {}
+}
+
+@injectable()
+class ReportService {
+  constructor(@inject('IMailer') public mailer: IMailer) {}
+}
+
+@injectable()
+class NotificationService {
+  @Inject('IMailer')
+  public mailer!: IMailer;
+}
+
+describe('Container', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = Container.make();
+  });
+
+  describe('contextual bindings', () => {
+    beforeEach(() => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+      container.bind(UserService).toSelf();
+      container.bind(ReportService).toSelf();
+      container.bind(NotificationService).toSelf();
+    });
+
+    it('should resolve the default binding without a context', () => {
+      expect(container.get<IMailer>('IMailer').driver).toBe('smtp');
+    });
+
+    it('should give the contextual implementation to constructor dependencies', () => {
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+
+      expect(container.get<UserService>(UserService).mailer.driver).toBe('log');
+      expect(container.get<ReportService>(ReportService).mailer.driver).toBe('smtp');
+      expect(container.getStats().contextualResolutions).toBe(1);
+    });
+
+    it('should give the contextual implementation to injected properties', () => {
+      container.when(NotificationService).needs('IMailer').give({ driver: 'array' });
+
+      expect(container.get<NotificationService>(NotificationService).mailer.driver).toBe('array');
+    });
+
+    it('should pass the requesting class to contextual factories', () => {
+      const factory = jest.fn((context: Function) => ({ driver: context.name }));
+      container.when(ReportService).needs('IMailer').give(factory);
+
+      expect(container.get<ReportService>(ReportService).mailer.driver).toBe('ReportService');
+      expect(factory).toHaveBeenCalledWith(ReportService);
+    });
+
+    it('should apply contextual bindings to nested resolutions', () => {
+      @injectable()
+      class Dashboard {
+        constructor(@inject(UserService) public users: UserService) {}
+      }
+
+      container.bind(Dashboard).toSelf();
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+
+      expect(container.get<Dashboard>(Dashboard).users.mailer.driver).toBe('log');
+    });
+
+    it('should keep the requesting context while contextual factories resolve', () => {
+      container.bind<string>('MailerDriver').toConstantValue('smtp');
+      container.when(UserService).needs('MailerDriver').give('ses');
+      container.when(UserService).needs('IMailer').give(() => ({
+        driver: container.get<string>('MailerDriver'),
+      }));
+
+      expect(container.get<UserService>(UserService).mailer.driver).toBe('ses');
+      expect(container.get<string>('MailerDriver')).toBe('smtp');
+    });
+
+    it('should give the contextual implementation without a default binding', () => {
+      container.unbind('IMailer');
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+
+      expect(container.get<UserService>(UserService).mailer.driver).toBe('log');
+      expect(() => container.get<ReportService>(ReportService)).toThrow(/No matching bindings/);
+      expect(container.isBound('IMailer')).toBe(false);
+    });
+  });
+
+  describe('async bindings', () => {
+    it('should resolve async factories with getAsync', async () => {
+      container.bindAsync('IPool', async () => ({ connected: true }));
+
+      await expect(container.getAsync('IPool')).resolves.toEqual({ connected: true });
+    });
+
+    it('should create async singletons once for concurrent requests', async () => {
+      const factory = jest.fn(async () => ({ id: Math.random() }));
+      container.singletonAsync('IPool', factory);
+
+      const [first, second] = await Promise.all([
+        container.getAsync('IPool'),
+        container.getAsync('IPool'),
+      ]);
+
+      expect(first).toBe(second);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a clear error when get() hits an unresolved async binding', () => {
+      container.singletonAsync('IPool', async () => ({}));
+
+      expect(() => container.get('IPool')).toThrow(/Use getAsync\(\) instead/);
+    });
+
+    it('should allow get() once an async singleton has resolved', async () => {
+      container.singletonAsync('IPool', async () => ({ connected: true }));
+
+      const pool = await container.getAsync('IPool');
+
+      expect(container.get('IPool')).toBe(pool);
+    });
+
+    it('should pass the container to async factories', async () => {
+      container.bind<string>('DatabaseUrl').toConstantValue('sqlite://memory');
+      container.bindAsync('IPool', async (c) => ({ url: c.get<string>('DatabaseUrl') }));
+
+      await expect(container.getAsync('IPool')).resolves.toEqual({ url: 'sqlite://memory' });
+    });
+  });
+
+  describe('dependency graph', () => {
+    @injectable()
+    class Repository {
+      constructor(@inject('IConnection') public connection: unknown) {}
+    }
+
+    @injectable()
+    class Controller {
+      @Inject('IMailer')
+      public mailer!: IMailer;
+
+      constructor(@inject(Repository) public repository: Repository) {}
+    }
+
+    it('should include constructor and property dependencies', () => {
+      container.bind(Repository).toSelf();
+      container.bind(Controller).toSelf();
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+
+      const graph = container.getDependencyGraph();
+      const dependencies = graph.getDependencies(Controller);
+
+      expect(dependencies).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ to: Repository, kind: 'constructor' }),
+          expect.objectContaining({ to: 'IMailer', kind: 'property', propertyKey: 'mailer' }),
+        ])
+      );
+    });
+
+    it('should report missing bindings', () => {
+      container.bind(Repository).toSelf();
+
+      const result = container.validate();
+
+      expect(result.valid).toBe(false);
+      expect(result.missing).toEqual([{ identifier: 'IConnection', requiredBy: 'Repository' }]);
+    });
+
+    it('should detect dependency cycles', () => {
+      @injectable()
+      class First {
+        constructor(@inject('Second') public second: unknown) {}
+      }
+
+      @injectable()
+      class Second {
+        @Inject('First')
+        public first!: unknown;
+      }
+
+      container.bind('First').to(First);
+      container.bind('Second').to(Second);
+
+      const result = container.validate();
+
+      expect(result.valid).toBe(false);
+      expect(result.cycles).toEqual([['First', 'Second', 'First']]);
+    });
+
+    it('should export the graph to DOT, Mermaid and JSON', () => {
+      container.bind(Repository).toSelf();
+      container.bind<unknown>('IConnection').toConstantValue({});
+
+      const graph = container.getDependencyGraph();
+
+      expect(graph.export('dot')).toContain('"Repository" -> "IConnection";');
+      expect(graph.export('mermaid')).toMatch(/^graph TD/);
+      expect(JSON.parse(graph.export('json')).edges).toEqual([
+        { from: 'Repository', to: 'IConnection', kind: 'constructor', optional: false },
+      ]);
+    });
+  });
+
+  describe('scopes', () => {
+    @injectable()
+    class RequestContext {
+      disposed = false;
+
+      dispose(): void {
+        this.disposed = true;
+      }
+    }
+
+    @injectable()
+    class RequestHandler {
+      constructor(@inject('RequestContext') public context: RequestContext) {}
+    }
+
+    beforeEach(() => {
+      container.scoped('RequestContext', RequestContext);
+      container.register('RequestHandler', RequestHandler);
+    });
+
+    it('should share scoped services within a scope', () => {
+      const scope = container.createScope();
+
+      const context = scope.get<RequestContext>('RequestContext');
+
+      expect(scope.get<RequestHandler>('RequestHandler').context).toBe(context);
+      expect(scope.get<RequestContext>('RequestContext')).toBe(context);
+    });
+
+    it('should create separate instances for separate scopes', () => {
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.get('RequestContext')).not.toBe(second.get('RequestContext'));
+    });
+
+    it('should dispose scoped instances when the scope ends', async () => {
+      const scope = container.createScope();
+      const context = scope.get<RequestContext>('RequestContext');
+
+      await scope.dispose();
+
+      expect(context.disposed).toBe(true);
+      expect(scope.isDisposed()).toBe(true);
+      expect(() => scope.get('RequestContext')).toThrow(/disposed scope/);
+    });
+
+    it('should create one container scoped instance per child container', () => {
+      container.register('RequestContextPerContainer', RequestContext, 'container');
+      const child = container.createChild();
+
+      const parentInstance = container.get('RequestContextPerContainer');
+
+      expect(container.get('RequestContextPerContainer')).toBe(parentInstance);
+      expect(child.get('RequestContextPerContainer')).not.toBe(parentInstance);
+      expect(child.get('RequestContextPerContainer')).toBe(child.get('RequestContextPerContainer'));
+    });
+
+    it('should resolve from the ambient scope inside runInScope', async () => {
+      const resolveLater = async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return container.get<RequestContext>('RequestContext');
+      };
+
+      const [first, second] = await container.runInScope(async () => [
+        container.get<RequestContext>('RequestContext'),
+        await resolveLater(),
+      ]);
+
+      expect(first).toBe(second);
+      expect(first.disposed).toBe(true);
+    });
+
+    it('should isolate concurrent ambient scopes', async () => {
+      const handle = () =>
+        container.runInScope(async () => {
+          const context = container.get<RequestContext>('RequestContext');
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return context === container.get<RequestContext>('RequestContext') ? context : null;
+        });
+
+      const [first, second] = await Promise.all([handle(), handle()]);
+
+      expect(first).not.toBeNull();
+      expect(second).not.toBeNull();
+      expect(first).not.toBe(second);
+    });
+
+    it('should leave a provided scope undisposed', async () => {
+      const scope = container.createScope();
+
+      const context = await container.runInScope(() => container.get<RequestContext>('RequestContext'), scope);
+
+      expect(scope.get('RequestContext')).toBe(context);
+      expect(scope.isDisposed()).toBe(false);
+    });
+  });
+
+  describe('child containers', () => {
+    beforeEach(() => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+    });
+
+    it('should inherit contextual bindings from the parent', () => {
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+      const child = container.createChild();
+      child.bind(UserService).toSelf();
+
+      expect(child.get<UserService>(UserService).mailer.driver).toBe('log');
+    });
+
+    it('should let the child override inherited contextual bindings', () => {
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+      const child = container.createChild() as Container;
+      child.bind(UserService).toSelf();
+      child.when(UserService).needs('IMailer').give({ driver: 'array' });
+
+      expect(child.get<UserService>(UserService).mailer.driver).toBe('array');
+    });
+
+    it('should inherit service metadata from the parent', () => {
+      container.setMetadata('IMailer', { owner: 'mail' });
+      const child = container.createChild() as Container;
+
+      expect(child.getMetadata('IMailer')).toEqual({ owner: 'mail' });
+
+      child.setMetadata('IMailer', { owner: 'child' });
+      expect(child.getMetadata('IMailer')).toEqual({ owner: 'child' });
+      expect(container.getMetadata('IMailer')).toEqual({ owner: 'mail' });
+    });
+
+    it('should inherit the parent container options', () => {
+      const parent = Container.make({ defaultScope: 'Singleton' });
+
+      expect(parent.createChild().options.defaultScope).toBe('Singleton');
+    });
+
+    it('should block inheritance of isolated identifiers', () => {
+      container.setMetadata('IMailer', { owner: 'mail' });
+      const child = container.createChild({ isolate: ['IMailer'] });
+      child.bind(UserService).toSelf();
+
+      expect(child.isBound('IMailer')).toBe(false);
+      expect(child.getMetadata('IMailer')).toBeUndefined();
+      expect(() => child.get('IMailer')).toThrow(/isolated from parent container/);
+      expect(() => child.get(UserService)).toThrow(/isolated from parent container/);
+    });
+
+    it('should resolve isolated identifiers bound in the child', () => {
+      const child = container.createChild({ isolate: ['IMailer'] });
+      child.bind<IMailer>('IMailer').toConstantValue({ driver: 'child' });
+
+      expect(child.get<IMailer>('IMailer').driver).toBe('child');
+    });
+  });
+
+  describe('snapshots and overrides', () => {
+    beforeEach(() => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+    });
+
+    it('should restore bindings added after the snapshot', () => {
+      container.snapshot();
+      container.bind<string>('Temporary').toConstantValue('value');
+      container.setMetadata('Temporary', { owner: 'test' });
+
+      container.restore();
+
+      expect(container.isBound('Temporary')).toBe(false);
+      expect(container.isBound('IMailer')).toBe(true);
+      expect(container.getMetadata('Temporary')).toBeUndefined();
+    });
+
+    it('should restore contextual bindings', () => {
+      container.bind(UserService).toSelf();
+      container.snapshot();
+      container.when(UserService).needs('IMailer').give({ driver: 'log' });
+
+      container.restore();
+
+      expect(container.get<UserService>(UserService).mailer.driver).toBe('smtp');
+    });
+
+    it('should restore an earlier snapshot and discard later ones', () => {
+      const first = container.snapshot();
+      container.bind<string>('First').toConstantValue('first');
+      container.snapshot();
+      container.bind<string>('Second').toConstantValue('second');
+
+      container.restore(first);
+
+      expect(container.isBound('First')).toBe(false);
+      expect(container.isBound('Second')).toBe(false);
+      expect(() => container.restore()).toThrow(/snapshot not found/);
+    });
+
+    it('should override a binding until the handle is restored', () => {
+      const original = container.get<IMailer>('IMailer');
+      const handle = container.override<IMailer>('IMailer', { driver: 'fake' });
+
+      expect(container.get<IMailer>('IMailer').driver).toBe('fake');
+
+      handle.restore();
+
+      expect(handle.isRestored()).toBe(true);
+      expect(container.get<IMailer>('IMailer').driver).toBe(original.driver);
+    });
+
+    it('should restore nested overrides in reverse order', () => {
+      const outer = container.override<IMailer>('IMailer', { driver: 'outer' });
+      const inner = container.override<IMailer>('IMailer', { driver: 'inner' });
+
+      expect(container.get<IMailer>('IMailer').driver).toBe('inner');
+      inner.restore();
+      expect(container.get<IMailer>('IMailer').driver).toBe('outer');
+      outer.restore();
+      expect(container.get<IMailer>('IMailer').driver).toBe('smtp');
+    });
+
+    it('should remove overrides of identifiers that were not bound', () => {
+      const handle = container.override('Unbound', 'fake');
+
+      expect(container.get('Unbound')).toBe('fake');
+      handle.restore();
+      expect(container.isBound('Unbound')).toBe(false);
+    });
+  });
+
+  describe('auto-registration', () => {
+    @Injectable({ token: 'IChannel', tags: { transport: 'mail' } })
+    class MailChannel {
+      transport = 'mail';
+    }
+
+    @Injectable({ token: 'IChannel', tags: { transport: 'sms' } })
+    class SmsChannel {
+      transport = 'sms';
+    }
+
+    @Injectable({ token: 'IClock', scope: 'singleton' })
+    class SystemClock {}
+
+    @Injectable({ token: 'IStore', name: 'primary' })
+    class PrimaryStore {}
+
+    @Injectable()
+    class Dispatcher {
+      constructor(
+        @inject('IChannel') @Tagged('transport', 'sms') public channel: SmsChannel,
+        @inject('IStore') @Named('primary') public store: PrimaryStore
+      ) {}
+    }
+
+    class Undecorated {}
+
+    it('should bind scanned classes using their decorator options', () => {
+      container.scan([{ SystemClock, Dispatcher, Undecorated, version: '1.0.0' }]);
+
+      expect(container.get('IClock')).toBe(container.get('IClock'));
+      expect(container.isBound(Dispatcher)).toBe(true);
+      expect(container.isBound(Undecorated)).toBe(false);
+    });
+
+    it('should create multi-bindings by tag', () => {
+      container.autoRegister([MailChannel, SmsChannel]);
+
+      expect(container.getAll<MailChannel>('IChannel').map(channel => channel.transport)).toEqual(['mail', 'sms']);
+      expect(container.getTagged<SmsChannel>('IChannel', 'transport', 'sms').transport).toBe('sms');
+    });
+
+    it('should satisfy @Named and @Tagged injections', () => {
+      container.scan([{ MailChannel, SmsChannel, PrimaryStore, Dispatcher }]);
+
+      const dispatcher = container.get<Dispatcher>(Dispatcher);
+
+      expect(dispatcher.channel.transport).toBe('sms');
+      expect(dispatcher.store).toBeInstanceOf(PrimaryStore);
+    });
+
+    it('should return the bound identifiers and record metadata', () => {
+      const identifiers = container.autoRegister([SystemClock, Dispatcher]);
+
+      expect(identifiers).toEqual(['IClock', Dispatcher]);
+      expect(container.getMetadata('IClock')).toEqual(
+        expect.objectContaining({ scope: 'singleton', implementation: 'SystemClock' })
+      );
+    });
+  });
+
+  describe('typed tokens', () => {
+    const MAILER = createToken<IMailer>('IMailer');
+
+    it('should create registered symbols', () => {
+      expect(MAILER).toBe(Symbol.for('IMailer'));
+      expect(INJECTION_TOKENS.LOGGER).toBe(Symbol.for('ILogger'));
+    });
+
+    it('should register and resolve services by token', () => {
+      container.singleton(MAILER, SmtpMailer);
+
+      const mailer: IMailer = container.get(MAILER);
+
+      expect(mailer.driver).toBe('smtp');
+      expect(container.get(MAILER)).toBe(mailer);
+    });
+
+    it('should accept tokens in contextual bindings and @Inject', () => {
+      @injectable()
+      class Newsletter {
+        @Inject(MAILER)
+        public mailer!: IMailer;
+      }
+
+      container.register(MAILER, SmtpMailer);
+      container.bind(Newsletter).toSelf();
+      container.when(Newsletter).needs(MAILER).give({ driver: 'log' });
+
+      expect(container.get<Newsletter>(Newsletter).mailer.driver).toBe('log');
+    });
+
+    it('should carry the service types of the framework tokens', () => {
+      interface ICache {
+        get(key: string): unknown;
+        put(key: string, value: unknown): void;
+      }
+      const logger = { info: jest.fn() } as unknown as ILogger;
+      container.bind(INJECTION_TOKENS.LOGGER).toConstantValue(logger);
+
+      const inferred = container.get(INJECTION_TOKENS.LOGGER);
+      const explicit = container.get<ILogger>(INJECTION_TOKENS.LOGGER);
+      const annotated: ILogger = container.get(INJECTION_TOKENS.LOGGER);
+      // @ts-expect-error LOGGER resolves to ILogger, not ICache
+      container.get<ICache>(INJECTION_TOKENS.LOGGER);
+      const inferredType: Equals<typeof inferred, ILogger> = true;
+
+      expect(inferredType).toBe(true);
+      expect([inferred, explicit, annotated]).toEqual([logger, logger, logger]);
+    });
+
+    it('should infer the service type of classes', () => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+      container.bind(UserService).toSelf();
+
+      const service = container.get(UserService);
+      const serviceType: Equals<typeof service, UserService> = true;
+
+      expect(serviceType).toBe(true);
+      expect(service.mailer.driver).toBe('smtp');
+    });
+  });
+
+  describe('method and setter injection', () => {
+    @injectable()
+    class Mailbox {
+      public mailer?: IMailer;
+      public setterCalls = 0;
+
+      @Inject('IMailer')
+      set transport(mailer: IMailer) {
+        this.mailer = mailer;
+        this.setterCalls++;
+      }
+
+      send(@Inject('IMailer') mailer: IMailer, subject: string): string {
+        return `${mailer.driver}:${subject}`;
+      }
+    }
+
+    beforeEach(() => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+    });
+
+    it('should resolve method parameters in call()', () => {
+      const mailbox = new Mailbox();
+
+      expect(container.call(mailbox, 'send', [undefined, 'Welcome'])).toBe('smtp:Welcome');
+    });
+
+    it('should prefer explicit parameters over injection', () => {
+      const mailbox = new Mailbox();
+
+      expect(container.call(mailbox, 'send', [{ driver: 'log' }, 'Welcome'])).toBe('log:Welcome');
+    });
+
+    it('should report missing methods and dependencies', () => {
+      const mailbox = new Mailbox();
+      container.unbind('IMailer');
+
+      expect(() => container.call(mailbox, 'missing')).toThrow(/does not exist on 'Mailbox'/);
+      expect(() => container.call(mailbox, 'send')).toThrow(/parameter #0 of 'Mailbox.send'/);
+    });
+
+    it('should inject setters once after activation', () => {
+      container.bind(Mailbox).toSelf().inSingletonScope();
+
+      const mailbox = container.get<Mailbox>(Mailbox);
+      container.get<Mailbox>(Mailbox);
+
+      expect(mailbox.mailer?.driver).toBe('smtp');
+      expect(mailbox.setterCalls).toBe(1);
+    });
+  });
+
+  describe('resolution hooks', () => {
+    beforeEach(() => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+      container.bind(UserService).toSelf();
+    });
+
+    it('should run global activation hooks for nested dependencies', () => {
+      const activated: string[] = [];
+      container.onActivation((context, instance: any) => {
+        activated.push(instance.constructor.name);
+        return instance;
+      });
+
+      container.get(UserService);
+
+      expect(activated).toEqual(['SmtpMailer', 'UserService']);
+    });
+
+    it('should keep per identifier activation handlers working', () => {
+      container.onActivation<IMailer>('IMailer', (context, mailer) => ({ ...mailer, driver: 'handled' }));
+
+      expect(container.get<IMailer>('IMailer').driver).toBe('handled');
+    });
+
+    it('should still inject properties when user activation hooks are registered', () => {
+      container.bind(NotificationService).toSelf();
+      container.onActivation((context, instance) => instance);
+
+      expect(container.get<NotificationService>(NotificationService).mailer.driver).toBe('smtp');
+    });
+
+    it('should run before and after resolve hooks', () => {
+      const calls: string[] = [];
+      container.beforeResolve((identifier) => calls.push(`before:${String(identifier)}`));
+      container.afterResolve('IMailer', (instance: IMailer) => calls.push(`after:${instance.driver}`));
+
+      container.get('IMailer');
+
+      expect(calls).toEqual(['before:IMailer', 'after:smtp']);
+    });
+
+    it('should decorate services with extend()', () => {
+      container.extend<IMailer>('IMailer', (mailer) => ({ driver: `queued-${mailer.driver}` }));
+
+      expect(container.get<IMailer>('IMailer').driver).toBe('queued-smtp');
+      expect(container.get<UserService>(UserService).mailer.driver).toBe('queued-smtp');
+    });
+
+    it('should apply parent extenders to child resolutions', () => {
+      container.extend<IMailer>('IMailer', (mailer) => ({ driver: `queued-${mailer.driver}` }));
+      const child = container.createChild();
+      child.bind<IMailer>('IMailer').to(SmtpMailer);
+
+      expect(child.get<IMailer>('IMailer').driver).toBe('queued-smtp');
+    });
+
+    it('should run global deactivation hooks when singletons are unbound', () => {
+      const deactivated: unknown[] = [];
+      container.bind('Pool').toConstantValue({ open: true });
+      container.onDeactivation((instance) => {
+        deactivated.push(instance);
+      });
+
+      const pool = container.get('Pool');
+      container.unbind('Pool');
+
+      expect(deactivated).toEqual([pool]);
+    });
+  });
+
+  describe('resolution metrics', () => {
+    beforeEach(() => {
+      container.enableMetrics();
+      container.bind<IMailer>('IMailer').to(SmtpMailer).inSingletonScope();
+      container.bind(UserService).toSelf();
+    });
+
+    it('should record constructions and cache hits per service', () => {
+      container.get(UserService);
+      container.get(UserService);
+
+      const metrics = container.getServiceMetrics();
+      const mailer = metrics.find(entry => entry.identifier === 'IMailer')!;
+      const users = metrics.find(entry => entry.identifier === 'UserService')!;
+
+      expect(mailer).toEqual(expect.objectContaining({ resolutions: 2, constructions: 1, cacheHits: 1 }));
+      expect(users).toEqual(expect.objectContaining({ resolutions: 2, constructions: 2, cacheHits: 0 }));
+      expect(users.maxTime).toBeGreaterThanOrEqual(users.averageTime);
+    });
+
+    it('should record lazy loads and errors', () => {
+      container.lazyLoad('Report', () => ({ rows: [] }));
+
+      expect(() => container.get('Missing')).toThrow();
+
+      expect(container.getServiceMetrics()).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ identifier: 'Report', lazyLoads: 1 }),
+          expect.objectContaining({ identifier: 'Missing', errors: 1 }),
+        ])
+      );
+    });
+
+    it('should record property injection failures', () => {
+      container.bind(NotificationService).toSelf();
+      container.unbind('IMailer');
+
+      expect(() => container.get(NotificationService)).toThrow();
+      expect(container.getServiceMetrics()).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ identifier: 'NotificationService', propertyInjectionFailures: 1 }),
+        ])
+      );
+    });
+
+    it('should stream resolution events', () => {
+      const events: string[] = [];
+      const unsubscribe = container.onResolutionEvent(event => events.push(`${event.type}:${event.label}`));
+
+      container.get(UserService);
+      unsubscribe();
+      container.get(UserService);
+
+      expect(events).toEqual(['construct:IMailer', 'construct:UserService']);
+    });
+
+    it('should format the metrics as a table', () => {
+      container.get(UserService);
+
+      const table = container.getMetricsTable().split('\n');
+
+      expect(table[0]).toMatch(/^Service\s+\| Resolutions \| Constructions/);
+      expect(table).toHaveLength(4);
+    });
+
+    it('should not record anything while disabled', () => {
+      container.enableMetrics(false);
+
+      container.get(UserService);
+
+      expect(container.getServiceMetrics()).toEqual([]);
+    });
+  });
+
+  describe('resolution errors', () => {
+    @injectable()
+    class UserController {
+      constructor(@inject(UserService) public users: UserService) {}
+    }
+
+    const capture = (callback: () => unknown): ResolutionError => {
+      try {
+        callback();
+      } catch (error) {
+        return error as ResolutionError;
+      }
+      throw new Error('Expected resolution to fail');
+    };
+
+    it('should report the dependency path to the missing binding', () => {
+      container.bind(UserController).toSelf();
+      container.bind(UserService).toSelf();
+
+      const error = capture(() => container.get(UserController));
+
+      expect(error).toBeInstanceOf(ResolutionError);
+      expect(error.identifier).toBe('IMailer');
+      expect(error.getChain()).toBe('UserController -> UserService -> IMailer');
+      expect(error.attempted).toEqual(['binding', 'contextual', 'lazy']);
+      expect(error.message).toContain("Cannot resolve service 'IMailer' (UserController -> UserService -> IMailer)");
+    });
+
+    it('should include property injection in the attempted binding kinds', () => {
+      container.bind(NotificationService).toSelf();
+
+      const error = capture(() => container.get(NotificationService));
+
+      expect(error.path).toEqual(['NotificationService', 'IMailer']);
+      expect(error.attempted).toContain('property');
+    });
+
+    it('should suggest similarly named bound identifiers', () => {
+      container.bind<IMailer>('IMailer').to(SmtpMailer);
+      container.lazyLoad('IMailQueue', () => ({}));
+
+      const error = capture(() => container.get('IMailr'));
+
+      expect(error.suggestions).toEqual(['IMailer']);
+      expect(error.message).toContain("Did you mean 'IMailer'?");
+    });
+
+    it('should wrap lazy factory failures', async () => {
+      expect(() =>
+        container.lazyLoad('Report', () => {
+          throw new Error('boom');
+        })
+      ).toThrow('Failed to lazy load service');
+
+      await expect(container.getAsync('Report')).rejects.toThrow(ResolutionError);
+      expect(() => container.get('Report')).toThrow(/boom/);
+    });
+
+    it('should add attempts without losing the diagnostics', () => {
+      const error = capture(() => container.get('IMailer')).withAttempt('deferred provider');
+
+      expect(error).toBeInstanceOf(ResolutionError);
+      expect(error.attempted).toEqual(['binding', 'contextual', 'lazy', 'deferred provider']);
+      expect(error.path).toEqual(['IMailer']);
+    });
+  });
+
+  describe('disposal', () => {
+    const disposed: string[] = [];
+
+    @injectable()
+    class Database {
+      close() {
+        disposed.push('Database');
+      }
+    }
+
+    @injectable()
+    class Cache {
+      constructor(@inject(Database) public database: Database) {}
+
+      dispose() {
+        disposed.push('Cache');
+      }
+    }
+
+    beforeEach(() => {
+      disposed.length = 0;
+    });
+
+    it('should dispose singletons in reverse creation order', async () => {
+      container.singleton(Database, Database);
+      container.singleton(Cache, Cache);
+
+      container.get(Cache);
+      container.get(INJECTION_TOKENS.CONTAINER);
+      container.lazyLoad('Queue', () => ({
+        [ASYNC_DISPOSE]: async () => {
+          disposed.push('Queue');
+        },
+      }));
+      await container.dispose();
+
+      expect(disposed).toEqual(['Queue', 'Cache', 'Database']);
+      expect(container.isBound(Cache)).toBe(false);
+    });
+
+    it('should only dispose instantiated singletons once', async () => {
+      const database = new Database();
+      container.bind(Database).toConstantValue(database);
+      container.bind('Database').toConstantValue(database);
+      container.bind(Cache).toSelf();
+
+      container.get(Cache);
+      container.get('Database');
+      await container.unbindAllAsync();
+
+      expect(disposed).toEqual(['Database']);
+    });
+
+    it('should report every failure after disposing the remaining singletons', async () => {
+      container.singleton(Database, Database);
+      container.singleton('Broken', { dispose: () => { throw new Error('boom'); } });
+      container.singleton('Hanging', { close: () => new Promise(() => undefined) });
+
+      container.get(Database);
+      container.get('Broken');
+      container.get('Hanging');
+      const error = await container.dispose({ timeout: 10 }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(DisposalError);
+      expect(error.failures.map((failure: { identifier: string }) => failure.identifier)).toEqual(['Hanging', 'Broken']);
+      expect(error.message).toContain('Disposal timed out after 10ms');
+      expect(disposed).toEqual(['Database']);
+    });
+  });
+
+  describe('multi-binding collections', () => {
+    interface IHealthCheck {
+      name: string;
+    }
+
+    @injectable()
+    class DatabaseCheck implements IHealthCheck {
+      name = 'database';
+    }
+
+    @Priority(10)
+    @injectable()
+    class CacheCheck implements IHealthCheck {
+      name = 'cache';
+    }
+
+    @Injectable({ priority: 5 })
+    class QueueCheck implements IHealthCheck {
+      name = 'queue';
+    }
+
+    @injectable()
+    class HealthMonitor {
+      @InjectAll('IValidator')
+      public validators!: unknown[];
+
+      @InjectAllTagged('reports')
+      public reports!: IHealthCheck[];
+
+      constructor(@InjectAll('IHealthCheck') public checks: IHealthCheck[]) {}
+    }
+
+    beforeEach(() => {
+      container.bind('IHealthCheck').to(DatabaseCheck);
+      container.bind('IHealthCheck').to(CacheCheck);
+      container.bind('IHealthCheck').to(QueueCheck);
+    });
+
+    it('should order getAll() by priority and keep registration order for ties', () => {
+      container.bind('IHealthCheck').toConstantValue({ name: 'disk' });
+
+      const names = container.getAll<IHealthCheck>('IHealthCheck').map(check => check.name);
+
+      expect(names).toEqual(['cache', 'queue', 'database', 'disk']);
+    });
+
+    it('should inject every binding with @InjectAll', () => {
+      container.bind(HealthMonitor).toSelf();
+
+      const monitor = container.get<HealthMonitor>(HealthMonitor);
+
+      expect(monitor.checks.map(check => check.name)).toEqual(['cache', 'queue', 'database']);
+      expect(monitor.validators).toEqual([]);
+    });
+
+    it('should resolve tagged services in priority order', () => {
+      container.bind(DatabaseCheck).toSelf();
+      container.bind(CacheCheck).toSelf();
+      container.tag([DatabaseCheck, CacheCheck], 'reports');
+
+      const child = container.createChild() as Container;
+      child.bind('Disk').toConstantValue({ name: 'disk' });
+      child.tag('Disk', 'reports');
+
+      expect(child.tagged<IHealthCheck>('reports').map(check => check.name)).toEqual(['cache', 'database', 'disk']);
+      expect(container.tagged('reports')).toHaveLength(2);
+      expect(container.tagged('unknown')).toEqual([]);
+    });
+
+    it('should inject tagged services with @InjectAllTagged', () => {
+      container.bind(QueueCheck).toSelf();
+      container.bind(HealthMonitor).toSelf();
+      container.tag(QueueCheck, 'reports');
+
+      const monitor = container.get<HealthMonitor>(HealthMonitor);
+
+      expect(monitor.reports.map(check => check.name)).toEqual(['queue']);
+      expect(container.validate().valid).toBe(true);
+    });
+  });
+
+  describe('lazy injection', () => {
+    let constructed: string[];
+
+    @injectable()
+    class Mailer {
+      constructor() {
+        constructed.push('Mailer');
+      }
+    }
+
+    @injectable()
+    class Newsletter {
+      @InjectLazy(Mailer)
+      public mailer!: Mailer;
+
+      @InjectLazy('Author')
+      public author!: { newsletter: Newsletter };
+    }
+
+    @injectable()
+    class Author {
+      @Inject(Newsletter)
+      public newsletter!: Newsletter;
+    }
+
+    beforeEach(() => {
+      constructed = [];
+      container.singleton(Mailer, Mailer);
+      container.singleton(Newsletter, Newsletter);
+      container.singleton('Author', Author);
+    });
+
+    it('should defer construction until first access', () => {
+      const newsletter = container.get<Newsletter>(Newsletter);
+
+      expect(constructed).toEqual([]);
+      expect(newsletter.mailer).toBeInstanceOf(Mailer);
+      expect(newsletter.mailer).toBe(newsletter.mailer);
+      expect(constructed).toEqual(['Mailer']);
+    });
+
+    it('should break cycles between property dependencies', () => {
+      const newsletter = container.get<Newsletter>(Newsletter);
+
+      expect(newsletter.author.newsletter).toBe(newsletter);
+      expect(container.validate().cycles).toEqual([]);
+    });
+
+    it('should apply contextual bindings on first access', () => {
+      const mailer = new Mailer();
+      container.when(Newsletter).needs(Mailer).give(mailer);
+
+      expect(container.get<Newsletter>(Newsletter).mailer).toBe(mailer);
+    });
+
+    it('should retry resolution after a failed access', () => {
+      container.unbind(Mailer);
+      const newsletter = container.get<Newsletter>(Newsletter);
+
+      expect(() => newsletter.mailer).toThrow("Failed to inject property 'mailer'");
+
+      container.bind(Mailer).toSelf();
+      expect(newsletter.mailer).toBeInstanceOf(Mailer);
+    });
+  });
+
+  describe('property injection inheritance', () => {
+    @injectable()
+    class Mailer {}
+
+    @injectable()
+    class BaseController {
+      @Inject(Mailer)
+      public mailer!: Mailer;
+    }
+
+    @injectable()
+    class ReportController extends BaseController {
+      @InjectLazy('Author')
+      public author!: unknown;
+
+      @InjectAll('IExporter')
+      public exporters!: unknown[];
+
+      @InjectAllTagged('reports')
+      public reports!: unknown[];
+    }
+
+    beforeEach(() => {
+      container.bind(Mailer).toSelf();
+      container.bind(BaseController).toSelf();
+      container.bind(ReportController).toSelf();
+      container.bind('Author').toConstantValue({ name: 'Ada' });
+    });
+
+    it('should not add the properties of a subclass to its parent class', () => {
+      const base = container.get<BaseController>(BaseController);
+
+      expect(base.mailer).toBeInstanceOf(Mailer);
+      expect(Object.keys(base)).toEqual(['mailer']);
+    });
+
+    it('should inject inherited and own properties into a subclass', () => {
+      const controller = container.get<ReportController>(ReportController);
+
+      expect(controller.mailer).toBeInstanceOf(Mailer);
+      expect(controller.author).toEqual({ name: 'Ada' });
+      expect(controller.exporters).toEqual([]);
+      expect(controller.reports).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
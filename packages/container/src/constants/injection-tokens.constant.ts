@@ -1,42 +1,51 @@
+import { createToken } from '../utilities/token';
+import { InjectionTokenType } from '../interfaces/token.interface';
+
 /**
  * Standard injection tokens used throughout the container system.
  * Provides consistent identifiers for common services.
+ * Each token carries its service type, see IInjectionTokenTypes.
  */
 export const INJECTION_TOKENS = {
   /**
    * Token for the container itself.
    */
-  CONTAINER: Symbol.for('Container'),
+  CONTAINER: createToken<InjectionTokenType<'Container'>>('Container'),
 
   /**
    * Token for the application instance.
    */
-  APPLICATION: Symbol.for('Application'),
+  APPLICATION: createToken<InjectionTokenType<'Application'>>('Application'),
 
   /**
    * Token for the logger service.
    */
-  LOGGER: Symbol.for('ILogger'),
+  LOGGER: createToken<InjectionTokenType<'ILogger'>>('ILogger'),
 
   /**
    * Token for the cache service.
    */
-  CACHE: Symbol.for('ICache'),
+  CACHE: createToken<InjectionTokenType<'ICache'>>('ICache'),
 
   /**
    * Token for the middleware service.
    */
-  MIDDLEWARE: Symbol.for('IMiddleware'),
+  MIDDLEWARE: createToken<InjectionTokenType<'IMiddleware'>>('IMiddleware'),
 
   /**
    * Token for the metadata service.
    */
-  METADATA: Symbol.for('IMetadata'),
+  METADATA: createToken<InjectionTokenType<'IMetadata'>>('IMetadata'),
 
   /**
    * Token for the decorator registry.
    */
-  DECORATOR_REGISTRY: Symbol.for('DecoratorRegistry'),
+  DECORATOR_REGISTRY: createToken<InjectionTokenType<'DecoratorRegistry'>>('DecoratorRegistry'),
+
+  /**
+   * Token for the event dispatcher.
+   */
+  EVENTS: createToken<InjectionTokenType<'IEventDispatcher'>>('IEventDispatcher'),
 } as const;
 
 /**
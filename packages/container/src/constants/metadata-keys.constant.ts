@@ -18,6 +18,11 @@ export const METADATA_KEYS = {
    */
   INJECT_METHOD: Symbol.for('inject:method'),
 
+  /**
+   * Key for storing injection metadata on setters.
+   */
+  INJECT_SETTER: Symbol.for('inject:setter'),
+
   /**
    * Key for storing named injection metadata.
    */
@@ -42,6 +47,16 @@ export const METADATA_KEYS = {
    * Key for storing service metadata.
    */
   SERVICE_METADATA: Symbol.for('service:metadata'),
+
+  /**
+   * Key for storing @Injectable options used for auto-registration.
+   */
+  INJECTABLE_OPTIONS: Symbol.for('injectable:options'),
+
+  /**
+   * Key for storing the priority used to order multi-bindings.
+   */
+  PRIORITY: Symbol.for('service:priority'),
 } as const;
 
 /**
@@ -1,9 +1,37 @@
-import { Container as InversifyContainer, interfaces } from 'inversify';
+import { AsyncLocalStorage } from 'async_hooks';
+import { performance } from 'perf_hooks';
+import { Container as InversifyContainer, interfaces, LazyServiceIdentifier, METADATA_KEY, MetadataReader } from 'inversify';
 import { IContainer } from './interfaces/container.interface';
 import { PropertyInjectionResolver } from './utilities/property-injection-resolver';
+import { MethodInjectionResolver } from './utilities/method-injection-resolver';
+import { ResolutionHooks } from './utilities/resolution-hooks';
+import { ResolutionMetrics } from './utilities/resolution-metrics';
 import { ContextualBindingManager } from './utilities/contextual-binding-manager';
-import { IContextualBindingBuilder } from './interfaces/contextual-binding.interface';
+import { IContextualBindingBuilder } from './interfaces/contextual-binding-builder.interface';
+import { DependencyGraph } from './utilities/dependency-graph';
+import { ContainerScope } from './utilities/container-scope';
+import { IContainerScope } from './interfaces/container-scope.interface';
+import { IChildContainerOptions } from './interfaces/child-container-options.interface';
+import { IContainerSnapshot, IBindingOverride } from './interfaces/container-snapshot.interface';
+import { IDependencyEdge, IContainerValidationResult } from './interfaces/dependency-graph.interface';
+import { IInjectableOptions } from './interfaces/injectable-options.interface';
+import { ServiceIdentifier } from './interfaces/token.interface';
+import {
+  BeforeResolveHook,
+  AfterResolveHook,
+  ActivationHook,
+  DeactivationHook,
+  ServiceExtender,
+  ResolutionHookStage,
+  IResolutionHookTypes,
+} from './interfaces/resolution-hooks.interface';
+import { IServiceMetrics, ResolutionEventListener } from './interfaces/resolution-metrics.interface';
+import { ResolutionError, ResolutionAttempt } from './errors/resolution-error';
+import { DisposalError } from './errors/disposal-error';
+import { IDisposeOptions, IDisposalFailure } from './interfaces/disposal.interface';
+import { ASYNC_DISPOSE, disposeInstanceWithin } from './utilities/disposable';
 import { INJECTION_TOKENS } from './constants/injection-tokens.constant';
+import { METADATA_KEYS } from './constants/metadata-keys.constant';
 
 /**
  * Extended container implementation that builds upon InversifyJS.
@@ -17,23 +45,81 @@ export class Container extends InversifyContainer implements IContainer {
   /**
    * Map of lazy-loaded services with their factory functions.
    */
-  private lazyServices = new Map<string | symbol, () => any>();
+  private lazyServices = new Map<string | symbol | Function, () => any>();
 
   /**
    * Map of service metadata for enhanced service information.
    */
-  private serviceMetadata = new Map<string | symbol, any>();
+  private serviceMetadata = new Map<string | symbol | Function, any>();
 
   /**
    * Property injection resolver for handling property-based DI.
    */
   private propertyResolver: PropertyInjectionResolver;
 
+  /**
+   * Method injection resolver for Container.call() and setter injection.
+   */
+  private methodResolver: MethodInjectionResolver;
+
+  /**
+   * Resolution hooks registered on this container.
+   */
+  private hooks = ResolutionHooks.make();
+
+  /**
+   * Per-service resolution metrics, recorded once enabled.
+   */
+  private metrics = ResolutionMetrics.make();
+
   /**
    * Contextual binding manager for Laravel-style contextual DI.
    */
   private contextualBindings: ContextualBindingManager;
 
+  /**
+   * Stack of contexts (usually classes) currently being resolved.
+   * The top of the stack is the requester used for contextual bindings.
+   */
+  private resolutionStack: Array<string | symbol | Function> = [];
+
+  /**
+   * Stack of scopes that resolutions are currently performed in.
+   */
+  private scopeStack: ContainerScope[] = [];
+
+  /**
+   * Async local storage holding the ambient scope of runInScope() calls.
+   * Created on first use so containers that never opt in pay nothing.
+   */
+  private ambientScopes?: AsyncLocalStorage<ContainerScope>;
+
+  /**
+   * Instances of container scoped services owned by this container.
+   */
+  private containerInstances = new Map<string | symbol | Function, any>();
+
+  /**
+   * Identifiers this container does not inherit from its parent.
+   */
+  private isolated = new Set<string | symbol | Function>();
+
+  /**
+   * Service identifiers grouped by tag with tag().
+   */
+  private tags = new Map<string | symbol, Array<string | symbol | Function>>();
+
+  /**
+   * Snapshots taken with snapshot(), aligned with inversify's snapshot stack.
+   */
+  private snapshots: IContainerSnapshot[] = [];
+
+  /**
+   * Singletons created by this container, in creation order.
+   * Disposed in reverse order by dispose() and unbindAllAsync().
+   */
+  private createdSingletons: Array<{ identifier: interfaces.ServiceIdentifier; instance: unknown }> = [];
+
   /**
    * Container statistics for monitoring and debugging.
    */
@@ -53,9 +139,14 @@ export class Container extends InversifyContainer implements IContainer {
   constructor(containerOptions?: interfaces.ContainerOptions) {
     super(containerOptions);
     this.propertyResolver = PropertyInjectionResolver.make();
+    this.methodResolver = MethodInjectionResolver.make();
     this.contextualBindings = ContextualBindingManager.make();
     this.setupDefaultBindings();
-    this.setupPropertyInjection();
+    this.setupContextualResolution();
+    this.setupScopedResolution();
+    this.setupBindingPriorities();
+    this.setupResolutionTracing();
+    this.setupActivationPipeline();
     this.setupErrorHandling();
   }
 
@@ -67,7 +158,7 @@ export class Container extends InversifyContainer implements IContainer {
    * @param factory - Factory function to create the service
    * @returns T - The service instance
    */
-  lazyLoad<T>(identifier: string | symbol, factory: () => T): T {
+  lazyLoad<T>(identifier: ServiceIdentifier<T>, factory: () => T): T {
     try {
       // Check if already bound
       if (this.isBound(identifier)) {
@@ -78,11 +169,14 @@ export class Container extends InversifyContainer implements IContainer {
       // Check if lazy factory exists
       if (this.lazyServices.has(identifier)) {
         const lazyFactory = this.lazyServices.get(identifier)!;
+        const startedAt = performance.now();
         const instance = lazyFactory();
+        this.metrics.record({ type: 'lazy-load', identifier, duration: performance.now() - startedAt });
         
         // Bind the instance for future requests
         this.bind(identifier).toConstantValue(instance);
         this.lazyServices.delete(identifier);
+        this.trackSingleton(identifier, instance);
         
         this.stats.lazyLoads++;
         this.stats.resolutions++;
@@ -99,9 +193,12 @@ export class Container extends InversifyContainer implements IContainer {
       this.lazyServices.set(identifier, factory);
       
       // Create and bind the instance
+      const startedAt = performance.now();
       const instance = factory();
+      this.metrics.record({ type: 'lazy-load', identifier, duration: performance.now() - startedAt });
       this.bind(identifier).toConstantValue(instance);
       this.lazyServices.delete(identifier);
+      this.trackSingleton(identifier, instance);
       
       this.stats.lazyLoads++;
       this.stats.resolutions++;
@@ -123,39 +220,36 @@ export class Container extends InversifyContainer implements IContainer {
    * @returns void
    */
   register<T>(
-    identifier: string | symbol,
+    identifier: ServiceIdentifier<T>,
     implementation: interfaces.Newable<T> | T,
-    scope: 'singleton' | 'transient' | 'request' = 'transient'
+    scope: 'singleton' | 'transient' | 'request' | 'container' = 'transient'
   ): void {
     try {
-      let binding: interfaces.BindingToSyntax<T>;
+      let binding: interfaces.BindingInWhenOnSyntax<T>;
 
-      if (typeof implementation === 'function') {
+      if (typeof implementation === 'function' && scope === 'container') {
+        // Each container in the hierarchy owns its own instance
+        const newable = implementation as interfaces.Newable<T>;
+        this.bind<T>(identifier).toDynamicValue((context) =>
+          (context.container as Container).resolveContainerScoped(identifier, newable)
+        );
+      } else if (typeof implementation === 'function') {
         binding = this.bind<T>(identifier).to(implementation as interfaces.Newable<T>);
       } else {
-        binding = this.bind<T>(identifier).toConstantValue(implementation);
+        this.bind<T>(identifier).toConstantValue(implementation);
         return; // Constants don't have scope
       }
 
       // Apply scope
-      switch (scope) {
-        case 'singleton':
-          binding.inSingletonScope();
-          break;
-        case 'request':
-          binding.inRequestScope();
-          break;
-        case 'transient':
-        default:
-          binding.inTransientScope();
-          break;
+      if (scope !== 'container') {
+        this.applyScope(binding!, scope);
       }
 
       // Store metadata
       this.setMetadata(identifier, {
         scope,
         registeredAt: new Date(),
-        implementation: implementation.name || 'Anonymous',
+        implementation: (implementation as Function).name || 'Anonymous',
       });
 
       // Log registration in development
@@ -176,7 +270,7 @@ export class Container extends InversifyContainer implements IContainer {
    * @param implementation - The service implementation
    * @returns void
    */
-  singleton<T>(identifier: string | symbol, implementation: interfaces.Newable<T> | T): void {
+  singleton<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T> | T): void {
     this.register(identifier, implementation, 'singleton');
   }
 
@@ -188,10 +282,156 @@ export class Container extends InversifyContainer implements IContainer {
    * @param implementation - The service implementation
    * @returns void
    */
-  transient<T>(identifier: string | symbol, implementation: interfaces.Newable<T>): void {
+  transient<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T>): void {
     this.register(identifier, implementation, 'transient');
   }
 
+  /**
+   * Register a service created by an asynchronous factory.
+   * The service must be resolved with getAsync() until a singleton has settled.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param factory - Async factory function to create the service
+   * @param scope - The binding scope
+   * @returns void
+   */
+  bindAsync<T>(
+    identifier: ServiceIdentifier<T>,
+    factory: (container: IContainer) => Promise<T>,
+    scope: 'singleton' | 'transient' | 'request' = 'transient'
+  ): void {
+    try {
+      const binding = this.bind<T>(identifier).toDynamicValue(() =>
+        factory(this).then((instance) => {
+          if (scope === 'singleton') {
+            this.setMetadata(identifier, { resolved: true });
+          }
+          return instance;
+        })
+      );
+
+      // Apply scope
+      this.applyScope(binding, scope);
+
+      // Store metadata
+      this.setMetadata(identifier, {
+        scope,
+        async: true,
+        resolved: false,
+        registeredAt: new Date(),
+        implementation: factory.name || 'AsyncFactory',
+      });
+
+      // Log registration in development
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Registered async service: ${String(identifier)} with scope: ${scope}`);
+      }
+    } catch (error) {
+      this.stats.errors++;
+      throw new Error(`Failed to register async service '${String(identifier)}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Register a singleton service created by an asynchronous factory.
+   * Concurrent getAsync() calls share the same in-flight creation.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param factory - Async factory function to create the service
+   * @returns void
+   */
+  singletonAsync<T>(identifier: ServiceIdentifier<T>, factory: (container: IContainer) => Promise<T>): void {
+    this.bindAsync(identifier, factory, 'singleton');
+  }
+
+  /**
+   * Register a service scoped to a resolution scope.
+   * One instance is shared per scope created with createScope().
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param implementation - The service implementation
+   * @returns void
+   */
+  scoped<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T>): void {
+    this.register(identifier, implementation, 'request');
+  }
+
+  /**
+   * Create a disposable resolution scope.
+   * Request scoped services resolve to one instance per scope and are
+   * disposed when the scope is disposed.
+   * 
+   * @returns IContainerScope - The new scope
+   */
+  createScope(): IContainerScope {
+    return ContainerScope.make(this);
+  }
+
+  /**
+   * Run a callback with resolutions performed inside the given scope.
+   * 
+   * @template T
+   * @param scope - The scope to resolve in
+   * @param callback - The callback to run
+   * @returns T - The callback result
+   */
+  withScope<T>(scope: IContainerScope, callback: () => T): T {
+    this.scopeStack.push(scope as ContainerScope);
+    try {
+      return callback();
+    } finally {
+      this.scopeStack.pop();
+    }
+  }
+
+  /**
+   * Run a callback with a scope bound to the current async context.
+   * Every get() made by the callback, including after awaits, resolves request
+   * scoped services from that scope. A scope created here is disposed when the
+   * callback settles; a scope passed in is left for the caller to dispose.
+   * 
+   * @template T
+   * @param callback - The callback to run
+   * @param scope - Optional existing scope to run in
+   * @returns Promise<T> - The callback result
+   */
+  async runInScope<T>(
+    callback: (scope: IContainerScope) => T | Promise<T>,
+    scope?: IContainerScope
+  ): Promise<T> {
+    const activeScope = (scope || this.createScope()) as ContainerScope;
+
+    if (!this.ambientScopes) {
+      this.ambientScopes = new AsyncLocalStorage<ContainerScope>();
+    }
+
+    try {
+      return await this.ambientScopes.run(activeScope, () => callback(activeScope));
+    } finally {
+      if (!scope) {
+        await activeScope.dispose();
+      }
+    }
+  }
+
+  /**
+   * Get the scope resolutions are currently performed in.
+   * Explicit scopes take precedence over the ambient scope of runInScope().
+   * 
+   * @returns IContainerScope | null - The active scope or null
+   */
+  getActiveScope(): IContainerScope | null {
+    if (this.scopeStack.length > 0) {
+      return this.scopeStack[this.scopeStack.length - 1];
+    }
+
+    const ambientScope = this.ambientScopes?.getStore();
+    return ambientScope && !ambientScope.isDisposed() ? ambientScope : null;
+  }
+
   /**
    * Create a contextual binding.
    * Enables Laravel-style contextual dependency injection.
@@ -210,19 +450,73 @@ export class Container extends InversifyContainer implements IContainer {
    * @param identifier - The service identifier
    * @returns T[] - Array of resolved service instances
    */
-  getAll<T>(identifier: string | symbol): T[] {
+  getAll<T>(identifier: ServiceIdentifier<T>): T[] {
     try {
+      this.runBeforeResolve(identifier);
       this.stats.resolutions++;
-      return super.getAll<T>(identifier);
+      return this.runAfterResolve(identifier, super.getAll<T>(identifier));
     } catch (error) {
       // If not bound, check lazy services
-      if (this.lazyServices.has(identifier)) {
-        const instance = this.lazyLoad<T>(identifier, this.lazyServices.get(identifier)!);
-        return [instance];
+      const lazyOwner = this.findLazyOwner(identifier);
+      if (lazyOwner) {
+        return [this.resolveLazy<T>(lazyOwner, identifier)];
       }
       this.stats.errors++;
-      throw error;
+      this.metrics.record({ type: 'error', identifier, error });
+      throw this.createResolutionError(identifier, error);
+    }
+  }
+
+  /**
+   * Group services under a tag so they can be resolved together with tagged().
+   * 
+   * @param identifiers - The service identifiers to tag
+   * @param tag - The tag
+   * @returns void
+   */
+  tag(identifiers: ServiceIdentifier | Function | Array<ServiceIdentifier | Function>, tag: string | symbol): void {
+    const tagged = this.tags.get(tag) || [];
+
+    for (const identifier of Array.isArray(identifiers) ? identifiers : [identifiers]) {
+      if (!tagged.includes(identifier)) {
+        tagged.push(identifier);
+      }
+    }
+
+    this.tags.set(tag, tagged);
+  }
+
+  /**
+   * Resolve every service grouped under a tag, including tags of ancestor containers.
+   * Services are ordered by priority, highest first, then by the order they were tagged.
+   * 
+   * @template T
+   * @param tag - The tag
+   * @returns T[] - The resolved services
+   */
+  tagged<T = unknown>(tag: string | symbol): T[] {
+    const containers: Container[] = [];
+    for (let container: Container | null = this; container; container = container.getParentContainer()) {
+      containers.unshift(container);
     }
+
+    // Ancestor tags come first, so inherited services precede local ones of equal priority
+    const identifiers: Array<string | symbol | Function> = [];
+    for (const container of containers) {
+      for (const identifier of container.tags.get(tag) || []) {
+        if (!identifiers.includes(identifier)) {
+          identifiers.push(identifier);
+        }
+      }
+    }
+
+    return identifiers
+      .map(identifier => ({
+        identifier,
+        priority: Math.max(0, ...this.findBindings(identifier).map(Container.getBindingPriority)),
+      }))
+      .sort((a, b) => b.priority - a.priority)
+      .map(({ identifier }) => this.get<T>(identifier as ServiceIdentifier<T>));
   }
 
   /**
@@ -232,206 +526,1616 @@ export class Container extends InversifyContainer implements IContainer {
    * @param serviceIdentifier - The service identifier
    * @returns T - The resolved service instance
    */
-  get<T>(serviceIdentifier: string | symbol): T {
+  get<T>(serviceIdentifier: ServiceIdentifier<T>): T {
     try {
+      this.runBeforeResolve(serviceIdentifier);
+
+      // Async bindings can only be resolved synchronously once settled
+      const metadata = this.getMetadata(serviceIdentifier);
+      if (metadata?.async && !metadata.resolved) {
+        throw new Error(
+          `Service '${String(serviceIdentifier)}' is bound to an async factory that has not been resolved yet. Use getAsync() instead.`
+        );
+      }
+
       // Check for contextual binding first
       const contextualService = this.resolveContextual<T>(serviceIdentifier);
       if (contextualService !== null) {
         this.stats.contextualResolutions++;
         this.stats.resolutions++;
-        return contextualService;
+        return this.runAfterResolve(serviceIdentifier, contextualService);
       }
 
+      // Property and setter injection happen in the activation pipeline
       const instance = super.get<T>(serviceIdentifier);
       
-      // Perform property injection if the instance is an object
-      if (instance && typeof instance === 'object') {
-        this.propertyResolver.resolveProperties(instance, this);
-        this.stats.propertyInjections++;
-      }
-      
       this.stats.resolutions++;
-      return instance;
+      return this.runAfterResolve(serviceIdentifier, instance);
     } catch (error) {
       // If not bound, check lazy services
-      if (this.lazyServices.has(serviceIdentifier)) {
-        return this.lazyLoad<T>(serviceIdentifier, this.lazyServices.get(serviceIdentifier)!);
+      const lazyOwner = this.findLazyOwner(serviceIdentifier);
+      if (lazyOwner) {
+        return this.resolveLazy<T>(lazyOwner, serviceIdentifier);
       }
       this.stats.errors++;
-      throw error;
+      this.metrics.record({ type: 'error', identifier: serviceIdentifier, error });
+      throw this.createResolutionError(serviceIdentifier, error);
     }
   }
 
   /**
-   * Check if a service can be resolved (including lazy loaded services).
+   * Override getAsync to support async factories, lazy loading and contextual binding.
    * 
-   * @param identifier - The service identifier
-   * @returns boolean - True if the service can be resolved
+   * @template T
+   * @param serviceIdentifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
    */
-  canResolve(identifier: string | symbol): boolean {
-    return this.isBound(identifier) || 
-           this.lazyServices.has(identifier) ||
-           this.contextualBindings.hasContextualBinding(this, identifier);
+  async getAsync<T>(serviceIdentifier: ServiceIdentifier<T>): Promise<T> {
+    try {
+      this.runBeforeResolve(serviceIdentifier);
+
+      // Check for contextual binding first
+      const contextualService = this.resolveContextual<T | Promise<T>>(serviceIdentifier);
+      if (contextualService !== null) {
+        this.stats.contextualResolutions++;
+        this.stats.resolutions++;
+        return this.runAfterResolve(serviceIdentifier, await contextualService);
+      }
+
+      // Property and setter injection happen in the activation pipeline
+      const instance = await super.getAsync<T>(serviceIdentifier);
+
+      this.stats.resolutions++;
+      return this.runAfterResolve(serviceIdentifier, instance);
+    } catch (error) {
+      // If not bound, check lazy services
+      const lazyOwner = this.findLazyOwner(serviceIdentifier);
+      if (lazyOwner) {
+        return this.resolveLazy<T>(lazyOwner, serviceIdentifier);
+      }
+      this.stats.errors++;
+      this.metrics.record({ type: 'error', identifier: serviceIdentifier, error });
+      throw this.createResolutionError(serviceIdentifier, error);
+    }
   }
 
   /**
-   * Get service metadata.
+   * Register a hook called before services are resolved through get(), getAsync() or getAll().
+   * Applies to every service, or to one service when an identifier is given.
    * 
-   * @param identifier - The service identifier
-   * @returns any - Service metadata
+   * @param identifierOrHook - The service identifier, or the hook for every service
+   * @param hook - The hook, when an identifier is given
+   * @returns void
    */
-  getMetadata(identifier: string | symbol): any {
-    return this.serviceMetadata.get(identifier);
+  beforeResolve(identifierOrHook: interfaces.ServiceIdentifier | BeforeResolveHook, hook?: BeforeResolveHook): void {
+    this.addHook('beforeResolve', identifierOrHook, hook);
   }
 
   /**
-   * Set service metadata.
+   * Register a hook called with the result of get(), getAsync() or getAll().
+   * Applies to every service, or to one service when an identifier is given.
    * 
-   * @param identifier - The service identifier
-   * @param metadata - The metadata to store
+   * @param identifierOrHook - The service identifier, or the hook for every service
+   * @param hook - The hook, when an identifier is given
    * @returns void
    */
-  setMetadata(identifier: string | symbol, metadata: any): void {
-    const existingMetadata = this.serviceMetadata.get(identifier) || {};
-    this.serviceMetadata.set(identifier, { ...existingMetadata, ...metadata });
+  afterResolve(identifierOrHook: interfaces.ServiceIdentifier | AfterResolveHook, hook?: AfterResolveHook): void {
+    this.addHook('afterResolve', identifierOrHook, hook);
   }
 
   /**
-   * Create a child container that inherits from this container.
+   * Register an activation handler.
+   * Without an identifier the handler runs for every instance created from this container's
+   * bindings (including nested dependencies), after property and setter injection.
    * 
-   * @returns IContainer - The child container
+   * @template T
+   * @param identifierOrHandler - The service identifier, or the handler for every service
+   * @param handler - The handler, when an identifier is given
+   * @returns void
    */
-  createChild(): IContainer {
-    const child = new Container();
-    child.parent = this;
-    
-    // Copy contextual bindings to child
-    const parentBindings = this.contextualBindings.getStats();
-    if (parentBindings.totalBindings > 0) {
-      // In a real implementation, we would copy the bindings
-      console.debug(`Child container created with ${parentBindings.totalBindings} inherited contextual bindings`);
+  onActivation<T = unknown>(handler: ActivationHook<T>): void;
+  onActivation<T = unknown>(identifier: interfaces.ServiceIdentifier<T>, handler: ActivationHook<T>): void;
+  onActivation<T = unknown>(
+    identifierOrHandler: interfaces.ServiceIdentifier<T> | ActivationHook<T>,
+    handler?: ActivationHook<T>
+  ): void {
+    if (handler === undefined) {
+      this.hooks.add('activation', identifierOrHandler as ActivationHook);
+      return;
     }
-    
-    return child;
+    super.onActivation<T>(identifierOrHandler as interfaces.ServiceIdentifier<T>, handler);
   }
 
   /**
-   * Get container statistics.
+   * Register a deactivation handler.
+   * Without an identifier the handler runs for every singleton of this container
+   * released by unbind() or unbindAll().
    * 
-   * @returns object - Container statistics
+   * @template T
+   * @param identifierOrHandler - The service identifier, or the handler for every service
+   * @param handler - The handler, when an identifier is given
+   * @returns void
    */
-  getStats(): typeof this.stats {
-    return { ...this.stats };
+  onDeactivation<T = unknown>(handler: DeactivationHook<T>): void;
+  onDeactivation<T = unknown>(identifier: interfaces.ServiceIdentifier<T>, handler: DeactivationHook<T>): void;
+  onDeactivation<T = unknown>(
+    identifierOrHandler: interfaces.ServiceIdentifier<T> | DeactivationHook<T>,
+    handler?: DeactivationHook<T>
+  ): void {
+    if (handler === undefined) {
+      this.hooks.add('deactivation', identifierOrHandler as DeactivationHook);
+      return;
+    }
+    super.onDeactivation<T>(identifierOrHandler as interfaces.ServiceIdentifier<T>, handler);
   }
 
   /**
-   * Reset container statistics.
+   * Decorate a service without replacing its binding.
+   * The extender receives every new instance and returns the instance to use instead.
+   * Singletons resolved before the call keep their current instance.
    * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param extender - Function returning the decorated instance
    * @returns void
    */
-  resetStats(): void {
-    this.stats = {
-      resolutions: 0,
-      lazyLoads: 0,
-      propertyInjections: 0,
-      contextualResolutions: 0,
-      errors: 0,
-    };
+  extend<T>(identifier: ServiceIdentifier<T>, extender: ServiceExtender<T>): void {
+    this.hooks.add('extend', extender, identifier);
   }
 
   /**
-   * Resolve contextual binding for a service.
+   * Call a method on an instance, resolving its @Inject parameters from the container.
+   * Explicit parameters take precedence over injection at the same position.
    * 
-   * @private
-   * @template T
-   * @param serviceIdentifier - The service identifier
-   * @returns T | null - The resolved service or null
+   * @template R
+   * @param instance - The instance to call the method on
+   * @param method - The method name
+   * @param parameters - Explicit arguments, by position
+   * @returns R - The method's return value
+   * @throws Error if the method does not exist or a required parameter cannot be resolved
    */
-  private resolveContextual<T>(serviceIdentifier: string | symbol): T | null {
-    // Get the current execution context from the call stack
-    const context = this.getCurrentContext();
-    if (!context) {
-      return null;
+  call<R = any>(instance: object, method: string | symbol, parameters: any[] = []): R {
+    let args: any[];
+
+    try {
+      args = this.withResolutionContext(instance.constructor, () =>
+        this.methodResolver.resolveArguments(instance, method, this, parameters)
+      );
+    } catch (error) {
+      this.stats.errors++;
+      throw new Error(`Failed to call method '${String(method)}': ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    return this.contextualBindings.resolveContextual(context, serviceIdentifier);
+    return (instance as any)[method](...args);
   }
 
   /**
-   * Get the current execution context from the call stack.
+   * Check if a service can be resolved (including lazy loaded services).
    * 
-   * @private
-   * @returns any - The current context or null
+   * @param identifier - The service identifier
+   * @returns boolean - True if the service can be resolved
    */
-  private getCurrentContext(): any {
-    // In a real implementation, this would analyze the call stack
-    // to determine the requesting context. For now, we return null
-    // as this requires more complex stack trace analysis.
-    
-    // This could be enhanced by:
-    // 1. Analyzing Error().stack
-    // 2. Using async_hooks in Node.js
-    // 3. Maintaining a context stack during resolution
-    
-    return null;
+  canResolve(identifier: string | symbol | Function): boolean {
+    return this.isBound(identifier) || 
+           this.findLazyOwner(identifier) !== null ||
+           this.findContextualManager(this, identifier) !== null;
   }
 
   /**
-   * Setup default container bindings.
+   * Check if a service is bound in this container or an ancestor.
+   * Isolated identifiers are only checked in this container.
    * 
-   * @private
-   * @returns void
+   * @param serviceIdentifier - The service identifier
+   * @returns boolean - True if the service is bound
    */
-  private setupDefaultBindings(): void {
-    // Bind the container itself
-    this.bind<IContainer>(INJECTION_TOKENS.CONTAINER).toConstantValue(this);
-    
-    // Bind utility services
-    this.bind<PropertyInjectionResolver>('PropertyInjectionResolver').toConstantValue(this.propertyResolver);
-    this.bind<ContextualBindingManager>('ContextualBindingManager').toConstantValue(this.contextualBindings);
+  isBound(serviceIdentifier: interfaces.ServiceIdentifier<unknown>): boolean {
+    if (this.isolated.has(serviceIdentifier as string | symbol)) {
+      return this.isCurrentBound(serviceIdentifier);
+    }
+    return super.isBound(serviceIdentifier);
   }
 
   /**
-   * Setup property injection hooks.
+   * Get service metadata.
    * 
-   * @private
-   * @returns void
+   * @param identifier - The service identifier
+   * @returns any - Service metadata
    */
-  private setupPropertyInjection(): void {
-    // Override the onActivation to perform property injection
-    this.onActivation = (context: interfaces.Context, injectable: any) => {
-      if (injectable && typeof injectable === 'object') {
-        try {
-          this.propertyResolver.resolveProperties(injectable, this);
-          this.stats.propertyInjections++;
-        } catch (error) {
-          this.stats.errors++;
-          console.error(`Property injection failed for ${injectable.constructor?.name || 'unknown'}:`, error);
-        }
-      }
-      return injectable;
-    };
+  getMetadata(identifier: string | symbol | Function): any {
+    if (this.serviceMetadata.has(identifier)) {
+      return this.serviceMetadata.get(identifier);
+    }
+
+    const parent = this.getParentContainer();
+    return parent && !this.isolated.has(identifier) ? parent.getMetadata(identifier) : undefined;
   }
 
   /**
-   * Setup error handling for the container.
+   * Set service metadata.
    * 
-   * @private
+   * @param identifier - The service identifier
+   * @param metadata - The metadata to store
    * @returns void
    */
-  private setupErrorHandling(): void {
-    // Add error handling for binding failures
-    const originalBind = this.bind.bind(this);
-    this.bind = function<T>(serviceIdentifier: string | symbol) {
-      try {
-        return originalBind<T>(serviceIdentifier);
-      } catch (error) {
-        this.stats.errors++;
-        throw new Error(`Failed to bind service '${String(serviceIdentifier)}': ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }.bind(this);
+  setMetadata(identifier: string | symbol | Function, metadata: any): void {
+    const existingMetadata = this.serviceMetadata.get(identifier) || {};
+    this.serviceMetadata.set(identifier, { ...existingMetadata, ...metadata });
+  }
+
+  /**
+   * Build the dependency graph of every binding in the container.
+   * Includes constructor dependencies and properties decorated with @Inject.
+   * 
+   * @returns DependencyGraph - The dependency graph
+   */
+  getDependencyGraph(): DependencyGraph {
+    const graph = DependencyGraph.make();
+
+    for (const identifier of this.lazyServices.keys()) {
+      graph.addNode({ identifier, bound: true, implementation: 'LazyFactory' });
+    }
+
+    for (const [identifier, bindings] of this.getBindingEntries()) {
+      for (const binding of bindings) {
+        const implementation = binding.type === 'Instance' ? (binding.implementationType as Function) : null;
+
+        graph.addNode({
+          identifier,
+          bound: true,
+          implementation: implementation?.name || binding.type,
+        });
+
+        if (!implementation) {
+          continue;
+        }
+
+        for (const edge of this.collectDependencies(identifier, implementation)) {
+          graph.addEdge(edge);
+          graph.addNode({ identifier: edge.to, bound: this.canResolve(edge.to as string | symbol) });
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Validate every binding for dependency cycles and missing dependencies.
+   * Intended to run before boot so problems surface before the first resolution.
+   * 
+   * @returns IContainerValidationResult - The validation result
+   */
+  validate(): IContainerValidationResult {
+    const graph = this.getDependencyGraph();
+    const label = (identifier: string | symbol | Function) =>
+      graph.getNode(identifier)?.label || DependencyGraph.labelFor(identifier);
+
+    const cycles = graph.findCycles().map(cycle => cycle.map(label));
+    const missing = graph
+      .getEdges()
+      .filter(edge => !edge.optional && !graph.getNode(edge.to)?.bound)
+      .map(edge => ({ identifier: label(edge.to), requiredBy: label(edge.from) }));
+
+    const errors = [
+      ...cycles.map(cycle => `Circular dependency detected: ${cycle.join(' -> ')}`),
+      ...missing.map(entry => `Missing binding for '${entry.identifier}' required by '${entry.requiredBy}'`),
+    ];
+
+    return {
+      valid: errors.length === 0,
+      cycles,
+      missing,
+      errors,
+    };
+  }
+
+  /**
+   * Create a child container that inherits from this container.
+   * The child falls back to this container's bindings, contextual bindings,
+   * lazy services and metadata, and may override any of them locally.
+   * 
+   * @param options - Optional child container configuration
+   * @returns IContainer - The child container
+   */
+  createChild(options: IChildContainerOptions = {}): IContainer {
+    const { isolate = [], ...containerOptions } = options;
+    const child = new Container(Object.keys(containerOptions).length > 0 ? containerOptions : this.options);
+    child.parent = this;
+
+    if (isolate.length > 0) {
+      isolate.forEach(identifier => child.isolated.add(identifier));
+      child.setupIsolation();
+    }
+
+    return child;
+  }
+
+  /**
+   * Bind classes using the options given to their @Injectable decorator.
+   * Classes are bound to their token (or to themselves) in the configured scope,
+   * with name and tags matched against @Named and @Tagged injections.
+   * 
+   * @param classes - The classes to register
+   * @param options - Optional defaults for classes without decorator options
+   * @returns Array<string | symbol | Function> - The identifiers that were bound
+   */
+  autoRegister(classes: Function[], options: IInjectableOptions = {}): Array<string | symbol | Function> {
+    return classes.map(target => {
+      const injectableOptions: IInjectableOptions = {
+        ...options,
+        ...Reflect.getOwnMetadata(METADATA_KEYS.INJECTABLE_OPTIONS, target),
+      };
+      return this.registerInjectable(target as interfaces.Newable<unknown>, injectableOptions);
+    });
+  }
+
+  /**
+   * Bind every @Injectable class exported by the given modules.
+   * Exports that are not decorated with @Injectable are ignored.
+   * 
+   * @param modules - Module namespaces (or classes) to scan
+   * @returns Array<string | symbol | Function> - The identifiers that were bound
+   */
+  scan(modules: Array<Record<string, unknown> | Function>): Array<string | symbol | Function> {
+    const classes = new Set<Function>();
+
+    for (const module of modules) {
+      const exported = typeof module === 'function' ? [module] : Object.values(module);
+
+      for (const value of exported) {
+        if (typeof value === 'function' && Reflect.hasOwnMetadata(METADATA_KEYS.INJECTABLE_OPTIONS, value)) {
+          classes.add(value);
+        }
+      }
+    }
+
+    return this.autoRegister(Array.from(classes));
+  }
+
+  /**
+   * Capture the current state of the container.
+   * Includes bindings, lazy services, contextual bindings, metadata and statistics.
+   * 
+   * @returns IContainerSnapshot - The snapshot
+   */
+  snapshot(): IContainerSnapshot {
+    super.snapshot();
+
+    const snapshot: IContainerSnapshot = {
+      createdAt: new Date(),
+      lazyServices: new Map(this.lazyServices),
+      serviceMetadata: new Map(this.serviceMetadata),
+      containerInstances: new Map(this.containerInstances),
+      tags: new Map(Array.from(this.tags, ([tag, identifiers]) => [tag, [...identifiers]])),
+      contextualBindings: this.contextualBindings.clone(),
+      hooks: this.hooks.clone(),
+      stats: { ...this.stats },
+    };
+
+    this.snapshots.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Restore the container to a snapshot.
+   * Restores the latest snapshot when none is given. Restoring a snapshot
+   * also discards every snapshot taken after it.
+   * 
+   * @param snapshot - Optional snapshot to restore
+   * @returns void
+   * @throws Error if the snapshot does not belong to this container or was already restored
+   */
+  restore(snapshot?: IContainerSnapshot): void {
+    const target = snapshot || this.snapshots[this.snapshots.length - 1];
+    const index = target ? this.snapshots.indexOf(target) : -1;
+
+    if (index < 0) {
+      throw new Error('Cannot restore container: snapshot not found or already restored');
+    }
+
+    while (this.snapshots.length > index) {
+      super.restore();
+      this.snapshots.pop();
+    }
+
+    this.lazyServices = new Map(target.lazyServices);
+    this.serviceMetadata = new Map(target.serviceMetadata);
+    this.containerInstances = new Map(target.containerInstances);
+    this.tags = new Map(Array.from(target.tags, ([tag, identifiers]) => [tag, [...identifiers]]));
+    this.contextualBindings.restore(target.contextualBindings);
+    this.hooks = target.hooks.clone();
+    this.stats = { ...(target.stats as typeof this.stats) };
+  }
+
+  /**
+   * Temporarily replace a service with the given value.
+   * The returned handle restores the replaced bindings without deactivating them.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param value - The value to resolve instead
+   * @returns IBindingOverride - Handle that reverts the override
+   */
+  override<T>(identifier: ServiceIdentifier<T>, value: T): IBindingOverride {
+    const dictionary = this.getBindingDictionary();
+    const originalBindings = dictionary.hasKey(identifier) ? [...dictionary.get(identifier)] : [];
+    let restored = false;
+
+    if (originalBindings.length > 0) {
+      dictionary.remove(identifier);
+    }
+    this.bind<T>(identifier).toConstantValue(value);
+
+    return {
+      identifier,
+      restore: () => {
+        if (restored) {
+          return;
+        }
+
+        const current = this.getBindingDictionary();
+        if (current.hasKey(identifier)) {
+          current.remove(identifier);
+        }
+        originalBindings.forEach(binding => current.add(identifier, binding));
+        restored = true;
+      },
+      isRestored: () => restored,
+    };
+  }
+
+  /**
+   * Unbind every service, disposing the singletons this container created first.
+   * Singletons are disposed in reverse creation order through Symbol.asyncDispose,
+   * Symbol.dispose, dispose() or close(); failures and timeouts are collected and
+   * reported once every singleton has been given a chance to clean up.
+   * 
+   * @param options - Optional disposal configuration
+   * @returns Promise<void>
+   * @throws DisposalError if any singleton fails to dispose
+   */
+  async unbindAllAsync(options: IDisposeOptions = {}): Promise<void> {
+    const failures = await this.disposeSingletons(options.timeout ?? Container.DISPOSE_TIMEOUT);
+
+    await super.unbindAllAsync();
+    this.containerInstances.clear();
+
+    if (failures.length > 0) {
+      this.stats.errors += failures.length;
+      throw DisposalError.make(failures);
+    }
+  }
+
+  /**
+   * Dispose the container, releasing every singleton, binding and lazy factory it owns.
+   * 
+   * @param options - Optional disposal configuration
+   * @returns Promise<void>
+   * @throws DisposalError if any singleton fails to dispose
+   */
+  async dispose(options: IDisposeOptions = {}): Promise<void> {
+    this.lazyServices.clear();
+    await this.unbindAllAsync(options);
+  }
+
+  /**
+   * Dispose the container when used with `await using`.
+   * 
+   * @returns Promise<void>
+   */
+  [ASYNC_DISPOSE](): Promise<void> {
+    return this.dispose();
+  }
+
+  /**
+   * Enable or disable per-service resolution metrics.
+   * Metrics cover resolutions started from this container, including nested dependencies.
+   * 
+   * @param enabled - Whether metrics should be recorded
+   * @returns void
+   */
+  enableMetrics(enabled: boolean = true): void {
+    this.metrics.enable(enabled);
+  }
+
+  /**
+   * Get the resolution metrics of every service, slowest first.
+   * 
+   * @returns IServiceMetrics[] - The service metrics
+   */
+  getServiceMetrics(): IServiceMetrics[] {
+    return this.metrics.getAll();
+  }
+
+  /**
+   * Get the resolution metrics of every service as a plain text table, slowest first.
+   * 
+   * @returns string - The metrics table
+   */
+  getMetricsTable(): string {
+    return this.metrics.toTable();
+  }
+
+  /**
+   * Subscribe to resolution events (constructions, cache hits, lazy loads and failures).
+   * 
+   * @param listener - The listener to call for every event
+   * @returns () => void - Function that unsubscribes the listener
+   */
+  onResolutionEvent(listener: ResolutionEventListener): () => void {
+    return this.metrics.subscribe(listener);
+  }
+
+  /**
+   * Get container statistics.
+   * 
+   * @returns object - Container statistics
+   */
+  getStats(): typeof this.stats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset container statistics.
+   * 
+   * @returns void
+   */
+  resetStats(): void {
+    this.stats = {
+      resolutions: 0,
+      lazyLoads: 0,
+      propertyInjections: 0,
+      contextualResolutions: 0,
+      errors: 0,
+    };
+    this.metrics.reset();
+  }
+
+  /**
+   * Get the inversify binding dictionary of this container.
+   * 
+   * @private
+   * @returns interfaces.Lookup - The binding dictionary
+   */
+  private getBindingDictionary(): interfaces.Lookup<interfaces.Binding<unknown>> {
+    return (this as any)._bindingDictionary;
+  }
+
+  /**
+   * Get every binding registered directly on this container.
+   * 
+   * @private
+   * @returns Array - Pairs of service identifier and bindings
+   */
+  private getBindingEntries(): Array<[string | symbol | Function, interfaces.Binding<unknown>[]]> {
+    const entries: Array<[string | symbol | Function, interfaces.Binding<unknown>[]]> = [];
+
+    this.getBindingDictionary().traverse((identifier, bindings) => {
+      entries.push([identifier as string | symbol | Function, bindings]);
+    });
+
+    return entries;
+  }
+
+  /**
+   * Collect the constructor and property dependencies of an implementation.
+   * 
+   * @private
+   * @param identifier - The identifier the implementation is bound to
+   * @param implementation - The implementation class
+   * @returns IDependencyEdge[] - The dependency edges
+   */
+  private collectDependencies(identifier: string | symbol | Function, implementation: Function): IDependencyEdge[] {
+    const edges: IDependencyEdge[] = [];
+    const reader = new MetadataReader();
+    const unwrap = (value: any) => (value instanceof LazyServiceIdentifier ? value.unwrap() : value);
+    const isPrimitive = (value: any) => [Object, Function, String, Number, Boolean, Array].includes(value);
+
+    // Constructor parameters (inversify metadata)
+    const { compilerGeneratedMetadata, userGeneratedMetadata } = reader.getConstructorMetadata(implementation as NewableFunction);
+    const parameterCount = Math.max(
+      compilerGeneratedMetadata?.length ?? 0,
+      ...Object.keys(userGeneratedMetadata).map(index => Number(index) + 1)
+    );
+
+    for (let index = 0; index < parameterCount; index++) {
+      const tags = userGeneratedMetadata[index] || [];
+      if (tags.some(tag => tag.key === METADATA_KEY.UNMANAGED_TAG)) {
+        continue;
+      }
+
+      const injectTag = tags.find(tag => tag.key === METADATA_KEY.INJECT_TAG || tag.key === METADATA_KEY.MULTI_INJECT_TAG);
+      const dependency = unwrap(injectTag ? injectTag.value : compilerGeneratedMetadata?.[index]);
+      if (!dependency || isPrimitive(dependency)) {
+        continue;
+      }
+
+      edges.push({
+        from: identifier,
+        to: dependency,
+        kind: 'constructor',
+        optional: tags.some(tag => tag.key === METADATA_KEY.OPTIONAL_TAG),
+      });
+    }
+
+    // Properties decorated with inversify's @inject
+    const propertiesMetadata = reader.getPropertiesMetadata(implementation as NewableFunction);
+    for (const propertyKey of Object.keys(propertiesMetadata)) {
+      const tags = propertiesMetadata[propertyKey];
+      const injectTag = tags.find(tag => tag.key === METADATA_KEY.INJECT_TAG || tag.key === METADATA_KEY.MULTI_INJECT_TAG);
+      if (!injectTag) {
+        continue;
+      }
+
+      edges.push({
+        from: identifier,
+        to: unwrap(injectTag.value),
+        kind: 'property',
+        optional: tags.some(tag => tag.key === METADATA_KEY.OPTIONAL_TAG),
+        propertyKey,
+      });
+    }
+
+    // Properties decorated with @Inject (METADATA_KEYS.INJECT_PROPERTY)
+    for (const injection of this.propertyResolver.getPropertyInjections(implementation)) {
+      if (injection.factory || injection.tag !== undefined) {
+        continue;
+      }
+
+      edges.push({
+        from: identifier,
+        to: injection.serviceIdentifier,
+        kind: 'property',
+        optional: injection.optional === true || injection.all === true,
+        lazy: injection.lazy === true,
+        propertyKey: injection.propertyKey,
+      });
+    }
+
+    // Setters decorated with @Inject (METADATA_KEYS.INJECT_SETTER)
+    for (const injection of this.methodResolver.getSetterInjections(implementation)) {
+      edges.push({
+        from: identifier,
+        to: injection.serviceIdentifier,
+        kind: 'property',
+        optional: injection.optional === true,
+        propertyKey: injection.propertyKey,
+      });
+    }
+
+    return edges;
+  }
+
+  /**
+   * Resolve a service from the lazy factory of the container that owns it.
+   * 
+   * @private
+   * @template T
+   * @param owner - The container owning the lazy factory
+   * @param identifier - The service identifier
+   * @returns T - The service instance
+   */
+  private resolveLazy<T>(owner: Container, identifier: string | symbol | Function): T {
+    try {
+      return owner.lazyLoad<T>(identifier as ServiceIdentifier<T>, owner.lazyServices.get(identifier)!);
+    } catch (error) {
+      throw this.createResolutionError(identifier, error);
+    }
+  }
+
+  /**
+   * Create a resolution error describing why a service could not be resolved.
+   * Follows the dependency graph to the first required dependency without a binding,
+   * so the error names the whole chain rather than just the requested service.
+   * 
+   * @private
+   * @param identifier - The requested service identifier
+   * @param error - The underlying error
+   * @returns ResolutionError - The resolution error
+   */
+  private createResolutionError(identifier: string | symbol | Function, error: unknown): ResolutionError {
+    if (error instanceof ResolutionError) {
+      return error;
+    }
+
+    const attempted: ResolutionAttempt[] = ['binding', 'contextual', 'lazy'];
+    const missing = this.canResolve(identifier as string | symbol) ? this.findMissingDependency(identifier) : null;
+    const path = missing ? missing.path : [identifier];
+    const failed = path[path.length - 1];
+
+    if (missing?.kind === 'property') {
+      attempted.push('property');
+    }
+
+    const suggestions = this.canResolve(failed as string | symbol)
+      ? []
+      : ResolutionError.suggest(DependencyGraph.labelFor(failed), this.getResolvableLabels());
+
+    return ResolutionError.make(failed, path.map(DependencyGraph.labelFor), attempted, suggestions, error);
+  }
+
+  /**
+   * Find the first required dependency of a service that cannot be resolved.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @param visited - Identifiers already inspected
+   * @returns object | null - The path to the missing dependency and how it is injected, or null
+   */
+  private findMissingDependency(
+    identifier: string | symbol | Function,
+    visited = new Set<string | symbol | Function>()
+  ): { path: Array<string | symbol | Function>; kind: IDependencyEdge['kind'] } | null {
+    if (visited.has(identifier)) {
+      return null;
+    }
+    visited.add(identifier);
+
+    for (const implementation of this.findImplementations(identifier)) {
+      for (const edge of this.collectDependencies(identifier, implementation)) {
+        if (edge.optional) {
+          continue;
+        }
+
+        if (!this.canResolve(edge.to as string | symbol)) {
+          return { path: [identifier, edge.to], kind: edge.kind };
+        }
+
+        const nested = this.findMissingDependency(edge.to, visited);
+        if (nested) {
+          return { path: [identifier, ...nested.path], kind: nested.kind };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the classes bound to a service in this container or the nearest ancestor binding it.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @returns Function[] - The bound classes
+   */
+  private findImplementations(identifier: string | symbol | Function): Function[] {
+    return this.findBindings(identifier)
+      .filter(binding => binding.type === 'Instance')
+      .map(binding => binding.implementationType as Function);
+  }
+
+  /**
+   * Find the bindings of a service in this container or the nearest ancestor binding it.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @returns interfaces.Binding<unknown>[] - The bindings
+   */
+  private findBindings(identifier: string | symbol | Function): interfaces.Binding<unknown>[] {
+    for (let container: Container | null = this; container; container = container.getParentContainer()) {
+      const dictionary = container.getBindingDictionary();
+      if (dictionary.hasKey(identifier)) {
+        return dictionary.get(identifier);
+      }
+      if (container.isolated.has(identifier as string | symbol)) {
+        break;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Get the labels of every identifier resolvable from this container.
+   * 
+   * @private
+   * @returns string[] - The labels
+   */
+  private getResolvableLabels(): string[] {
+    const labels: string[] = [];
+
+    for (let container: Container | null = this; container; container = container.getParentContainer()) {
+      for (const [identifier] of container.getBindingEntries()) {
+        labels.push(DependencyGraph.labelFor(identifier));
+      }
+      for (const identifier of container.lazyServices.keys()) {
+        labels.push(DependencyGraph.labelFor(identifier));
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Apply a binding scope to an inversify binding.
+   * 
+   * @private
+   * @template T
+   * @param binding - The binding to configure
+   * @param scope - The binding scope
+   * @returns void
+   */
+  private applyScope<T>(
+    binding: interfaces.BindingInSyntax<T>,
+    scope: 'singleton' | 'transient' | 'request'
+  ): void {
+    switch (scope) {
+      case 'singleton':
+        binding.inSingletonScope();
+        break;
+      case 'request':
+        binding.inRequestScope();
+        break;
+      case 'transient':
+      default:
+        binding.inTransientScope();
+        break;
+    }
+  }
+
+  /**
+   * Resolve contextual binding for a service.
+   * 
+   * @private
+   * @template T
+   * @param serviceIdentifier - The service identifier
+   * @returns T | null - The resolved service or null
+   */
+  private resolveContextual<T>(serviceIdentifier: string | symbol | Function): T | null {
+    // Get the current execution context from the call stack
+    const context = this.getCurrentContext();
+    if (!context) {
+      return null;
+    }
+
+    const manager = this.findContextualManager(context, serviceIdentifier);
+    return manager ? manager.resolveContextual(context, serviceIdentifier) : null;
+  }
+
+  /**
+   * Get the parent container when it is a framework container.
+   * 
+   * @private
+   * @returns Container | null - The parent container or null
+   */
+  private getParentContainer(): Container | null {
+    return this.parent instanceof Container ? this.parent : null;
+  }
+
+  /**
+   * Find the contextual binding manager that can resolve a service for a context.
+   * Walks up the container hierarchy unless the identifier is isolated.
+   * 
+   * @private
+   * @param context - The requesting context
+   * @param identifier - The service identifier
+   * @returns ContextualBindingManager | null - The manager or null
+   */
+  private findContextualManager(context: any, identifier: string | symbol | Function): ContextualBindingManager | null {
+    if (this.contextualBindings.hasContextualBinding(context, identifier)) {
+      return this.contextualBindings;
+    }
+
+    const parent = this.getParentContainer();
+    return parent && !this.isolated.has(identifier) ? parent.findContextualManager(context, identifier) : null;
+  }
+
+  /**
+   * Find the container owning a lazy factory for a service.
+   * Walks up the container hierarchy unless the identifier is isolated.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @returns Container | null - The owning container or null
+   */
+  private findLazyOwner(identifier: string | symbol | Function): Container | null {
+    if (this.lazyServices.has(identifier)) {
+      return this;
+    }
+
+    const parent = this.getParentContainer();
+    return parent && !this.isolated.has(identifier) ? parent.findLazyOwner(identifier) : null;
+  }
+
+  /**
+   * Setup isolation of identifiers blocked from the parent container.
+   * Fails any resolution plan that would use an isolated identifier bound only in an ancestor.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupIsolation(): void {
+    const assertNotInherited = (request: interfaces.Request): void => {
+      const identifier = request.serviceIdentifier as string | symbol;
+      if (this.isolated.has(identifier) && !this.isCurrentBound(identifier) && request.bindings.length > 0) {
+        throw new Error(`No matching bindings found for serviceIdentifier: ${String(identifier)} (isolated from parent container)`);
+      }
+      request.childRequests.forEach(assertNotInherited);
+    };
+
+    this.applyMiddleware((planAndResolve) => (args) =>
+      planAndResolve({
+        ...args,
+        contextInterceptor: (context: interfaces.Context) => {
+          assertNotInherited(context.plan.rootRequest);
+          return args.contextInterceptor(context);
+        },
+      })
+    );
+  }
+
+  /**
+   * Get the context currently requesting a service.
+   * 
+   * @private
+   * @returns string | symbol | Function | null - The current context or null
+   */
+  private getCurrentContext(): string | symbol | Function | null {
+    return this.resolutionStack.length > 0
+      ? this.resolutionStack[this.resolutionStack.length - 1]
+      : null;
+  }
+
+  /**
+   * Run a callback with the given context pushed onto the resolution stack.
+   * Nested resolutions performed by the callback see the context as their requester.
+   * 
+   * @private
+   * @template T
+   * @param context - The requesting context
+   * @param callback - The callback to run
+   * @returns T - The callback result
+   */
+  private withResolutionContext<T>(context: string | symbol | Function, callback: () => T): T {
+    this.resolutionStack.push(context);
+    try {
+      return callback();
+    } finally {
+      this.resolutionStack.pop();
+    }
+  }
+
+  /**
+   * Swap constructor dependencies for contextual bindings once a plan is built.
+   * 
+   * @private
+   * @param request - The planned request to inspect
+   * @returns void
+   */
+  private applyContextualBindings(request: interfaces.Request): void {
+    const requester = request.bindings[0]?.implementationType || request.serviceIdentifier;
+
+    for (const childRequest of request.childRequests) {
+      const binding = childRequest.bindings[0];
+      const identifier = childRequest.serviceIdentifier as string | symbol;
+
+      const manager = binding && typeof requester !== 'object' && !childRequest.target?.isArray()
+        ? this.findContextualManager(requester, identifier)
+        : null;
+
+      if (manager) {
+        const contextualBinding = binding.clone();
+        contextualBinding.type = 'DynamicValue';
+        contextualBinding.scope = 'Transient';
+        contextualBinding.implementationType = null;
+        contextualBinding.onActivation = null;
+        contextualBinding.cache = null;
+        contextualBinding.activated = false;
+        contextualBinding.dynamicValue = () => {
+          this.stats.contextualResolutions++;
+          return this.withResolutionContext(requester as string | symbol | Function, () =>
+            manager.resolveContextual(requester, identifier)
+          );
+        };
+
+        childRequest.bindings = [contextualBinding];
+        childRequest.childRequests = [];
+        continue;
+      }
+
+      this.applyContextualBindings(childRequest);
+    }
+  }
+
+  /**
+   * Setup default container bindings.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupDefaultBindings(): void {
+    // Bind the container itself
+    this.bind<IContainer>(INJECTION_TOKENS.CONTAINER).toConstantValue(this);
+    
+    // Bind utility services
+    this.bind<PropertyInjectionResolver>('PropertyInjectionResolver').toConstantValue(this.propertyResolver);
+    this.bind<MethodInjectionResolver>('MethodInjectionResolver').toConstantValue(this.methodResolver);
+    this.bind<ContextualBindingManager>('ContextualBindingManager').toConstantValue(this.contextualBindings);
+  }
+
+  /**
+   * Setup contextual resolution for constructor injection.
+   * Rewrites each resolution plan so dependencies requested by a class with
+   * a contextual binding are provided by the contextual binding manager.
+   * Contextual services without a default binding get a placeholder binding
+   * while the plan is built, so inversify's planner can reach the rewrite.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupContextualResolution(): void {
+    this.applyMiddleware((planAndResolve) => (args) => {
+      const placeholders = this.bindContextualPlaceholders();
+
+      try {
+        return planAndResolve({
+          ...args,
+          contextInterceptor: (context: interfaces.Context) => {
+            this.applyContextualBindings(context.plan.rootRequest);
+            return args.contextInterceptor(context);
+          },
+        });
+      } finally {
+        if (placeholders.length > 0) {
+          this.getBindingDictionary().removeByCondition(binding => placeholders.includes(binding));
+        }
+      }
+    });
+  }
+
+  /**
+   * Bind a placeholder for every contextual service without a default binding.
+   * A placeholder only matches when the requesting class has a contextual
+   * binding for the service, and is rewritten by applyContextualBindings.
+   * 
+   * @private
+   * @returns interfaces.Binding[] - The placeholder bindings to remove after resolution
+   */
+  private bindContextualPlaceholders(): interfaces.Binding<unknown>[] {
+    const placeholders: interfaces.Binding<unknown>[] = [];
+
+    for (let container: Container | null = this; container; container = container.getParentContainer()) {
+      for (const identifier of container.contextualBindings.getServiceIdentifiers()) {
+        if (this.isBound(identifier)) {
+          continue;
+        }
+
+        super.bind(identifier).toDynamicValue(() => undefined).when((request) => {
+          const requester = request.parentRequest?.bindings[0]?.implementationType || request.parentRequest?.serviceIdentifier;
+          return !!requester && typeof requester !== 'object' && !request.target?.isArray() &&
+            this.findContextualManager(requester, identifier) !== null;
+        });
+
+        const bindings = this.getBindingDictionary().get(identifier);
+        placeholders.push(bindings[bindings.length - 1]);
+      }
+    }
+
+    return placeholders;
+  }
+
+  /**
+   * Setup scoped resolution for request scoped bindings.
+   * Resolutions inside a scope share the scope's instance map as their
+   * inversify request scope, so request scoped services live as long as the scope.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupScopedResolution(): void {
+    this.applyMiddleware((planAndResolve) => (args) =>
+      planAndResolve({
+        ...args,
+        contextInterceptor: (context: interfaces.Context) => {
+          const scope = this.getActiveScope() as ContainerScope | null;
+          if (scope) {
+            context.plan.rootRequest.requestScope = scope.instances;
+          }
+          return args.contextInterceptor(context);
+        },
+      })
+    );
+  }
+
+  /**
+   * Setup ordering of multi-bindings by priority.
+   * Sorts the bindings of every array request in a plan, so getAll(), getAllTagged()
+   * and multi-injected constructor parameters resolve the highest priority first.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupBindingPriorities(): void {
+    const sortRequest = (request: interfaces.Request): void => {
+      if (request.target?.isArray() && request.childRequests.length > 1) {
+        const priority = (childRequest: interfaces.Request) =>
+          childRequest.bindings[0] ? Container.getBindingPriority(childRequest.bindings[0]) : 0;
+        request.childRequests.sort((a, b) => priority(b) - priority(a));
+      }
+      request.childRequests.forEach(sortRequest);
+    };
+
+    this.applyMiddleware((planAndResolve) => (args) =>
+      planAndResolve({
+        ...args,
+        contextInterceptor: (context: interfaces.Context) => {
+          sortRequest(context.plan.rootRequest);
+          return args.contextInterceptor(context);
+        },
+      })
+    );
+  }
+
+  /**
+   * Setup resolution tracing for per-service metrics.
+   * Runs after the contextual rewrite so the traced bindings are the ones resolved.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupResolutionTracing(): void {
+    this.applyMiddleware((planAndResolve) => (args) =>
+      planAndResolve({
+        ...args,
+        contextInterceptor: (context: interfaces.Context) => {
+          if (this.metrics.isEnabled()) {
+            this.traceRequest(context.plan.rootRequest);
+          }
+          return args.contextInterceptor(context);
+        },
+      })
+    );
+  }
+
+  /**
+   * Wrap the bindings of a planned request and its children so resolving them is measured.
+   * Reads and writes go through to the original binding, so caching is unaffected.
+   * 
+   * @private
+   * @param request - The planned request
+   * @returns void
+   */
+  private traceRequest(request: interfaces.Request): void {
+    request.bindings = request.bindings.map(binding => this.traceBinding(request, binding));
+    request.childRequests.forEach(childRequest => this.traceRequest(childRequest));
+  }
+
+  /**
+   * Create a proxy of a binding that records a cache hit or the construction time.
+   * Inversify reads the scope first when resolving a binding and reads
+   * onActivation once the instance exists, which bound the construction.
+   * 
+   * @private
+   * @param request - The planned request
+   * @param binding - The binding to trace
+   * @returns interfaces.Binding<unknown> - The traced binding
+   */
+  private traceBinding(request: interfaces.Request, binding: interfaces.Binding<unknown>): interfaces.Binding<unknown> {
+    const identifier = request.serviceIdentifier;
+    let startedAt: number | null = null;
+    let finished = false;
+
+    return new Proxy(binding, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+
+        if (property === 'scope' && startedAt === null && !finished) {
+          const cached =
+            (value === 'Singleton' && target.activated) ||
+            (value === 'Request' && request.parentContext.plan.rootRequest.requestScope?.has(target.id));
+
+          if (cached) {
+            finished = true;
+            this.metrics.record({ type: 'cache-hit', identifier });
+          } else {
+            startedAt = performance.now();
+          }
+        }
+
+        if (property === 'onActivation' && startedAt !== null) {
+          const onActivation = value as interfaces.BindingActivation<unknown> | null;
+          return (context: interfaces.Context, injectable: unknown) =>
+            Container.pipe(onActivation ? onActivation(context, injectable) : injectable, (instance) => {
+              if (!finished && startedAt !== null) {
+                finished = true;
+                this.metrics.record({ type: 'construct', identifier, duration: performance.now() - startedAt });
+              }
+              return instance;
+            });
+        }
+
+        return value;
+      },
+    });
+  }
+
+  /**
+   * Bind a class according to its @Injectable options.
+   * 
+   * @private
+   * @template T
+   * @param target - The class to bind
+   * @param options - The injectable options
+   * @returns string | symbol | Function - The identifier the class was bound to
+   */
+  private registerInjectable<T>(
+    target: interfaces.Newable<T>,
+    options: IInjectableOptions
+  ): string | symbol | Function {
+    const identifier = options.token ?? target;
+    const scope = options.scope ?? 'transient';
+
+    try {
+      let binding: interfaces.BindingWhenSyntax<T>;
+
+      if (scope === 'container') {
+        // Keyed by class so tagged multi-bindings of one token stay separate
+        binding = this.bind<T>(identifier).toDynamicValue((context) =>
+          (context.container as Container).resolveContainerScoped(target, target)
+        );
+      } else {
+        const scopedBinding = this.bind<T>(identifier).to(target);
+        this.applyScope(scopedBinding, scope);
+        binding = scopedBinding;
+      }
+
+      if (options.name !== undefined || options.tags !== undefined) {
+        binding.when(request => Container.matchesInjectableConstraints(request, options));
+      }
+
+      if (typeof identifier !== 'function') {
+        this.setMetadata(identifier, {
+          scope,
+          registeredAt: new Date(),
+          implementation: target.name || 'Anonymous',
+          name: options.name,
+          tags: options.tags,
+        });
+      }
+
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Auto-registered service: ${target.name} as ${String(identifier)} with scope: ${scope}`);
+      }
+
+      return identifier;
+    } catch (error) {
+      this.stats.errors++;
+      throw new Error(`Failed to auto-register service '${target.name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Check if an auto-registered binding satisfies the name and tags requested by an injection.
+   * Injections without a name or tags accept every binding.
+   * 
+   * @private
+   * @static
+   * @param request - The inversify request
+   * @param options - The injectable options of the binding
+   * @returns boolean - True if the binding satisfies the request
+   */
+  private static matchesInjectableConstraints(
+    request: interfaces.Request | null,
+    options: IInjectableOptions
+  ): boolean {
+    const target = request?.target;
+    if (!target) {
+      return true;
+    }
+
+    const named = target.getNamedTag();
+    if (named && named.value !== options.name) {
+      return false;
+    }
+
+    const tags = options.tags || {};
+    return (target.getCustomTags() || []).every(
+      tag => Object.prototype.hasOwnProperty.call(tags, tag.key) && tags[tag.key as string] === tag.value
+    );
+  }
+
+  /**
+   * Resolve a container scoped service, creating it once per container.
+   * 
+   * @private
+   * @template T
+   * @param identifier - The service identifier
+   * @param implementation - The service implementation
+   * @returns T - The container's instance
+   */
+  private resolveContainerScoped<T>(identifier: string | symbol | Function, implementation: interfaces.Newable<T>): T {
+    if (!this.containerInstances.has(identifier)) {
+      const instance = this.resolve(implementation);
+      this.containerInstances.set(identifier, instance);
+      this.trackSingleton(identifier, instance);
+    }
+    return this.containerInstances.get(identifier);
+  }
+
+  /**
+   * Setup the activation pipeline for every binding created by this container.
+   * The binding's own onActivation/onDeactivation handlers keep working; the
+   * pipeline runs after them.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupActivationPipeline(): void {
+    const originalBind = this.bind.bind(this);
+    this.bind = <T>(serviceIdentifier: interfaces.ServiceIdentifier<T>) => {
+      const syntax = originalBind<T>(serviceIdentifier);
+      const bindings = this.getBindingDictionary().get(serviceIdentifier);
+      this.installPipeline(bindings[bindings.length - 1]);
+      return syntax;
+    };
+  }
+
+  /**
+   * Route a binding's activation and deactivation through the pipeline.
+   * 
+   * @private
+   * @param binding - The binding to install the pipeline on
+   * @returns void
+   */
+  private installPipeline(binding: interfaces.Binding<unknown>): void {
+    let onActivation = binding.onActivation;
+    let onDeactivation = binding.onDeactivation;
+
+    Object.defineProperty(binding, 'onActivation', {
+      configurable: true,
+      enumerable: true,
+      get: () => (context: interfaces.Context, injectable: unknown) =>
+        Container.pipe(
+          Container.pipe(onActivation ? onActivation(context, injectable) : injectable, (instance) =>
+            this.activate(context, binding.serviceIdentifier, instance)
+          ),
+          (instance) => {
+            if (binding.scope === 'Singleton') {
+              this.trackSingleton(binding.serviceIdentifier, instance);
+            }
+            return instance;
+          }
+        ),
+      set: (handler: interfaces.BindingActivation<unknown> | null) => {
+        onActivation = handler;
+      },
+    });
+
+    Object.defineProperty(binding, 'onDeactivation', {
+      configurable: true,
+      enumerable: true,
+      // Inversify rejects deactivation handlers on non-singleton bindings
+      get: () => (onDeactivation || binding.scope === 'Singleton'
+        ? (injectable: unknown) =>
+            Container.pipe(onDeactivation ? onDeactivation(injectable) : undefined, () =>
+              this.deactivate(binding.serviceIdentifier, injectable)
+            )
+        : null),
+      set: (handler: interfaces.BindingDeactivation<unknown> | null) => {
+        onDeactivation = handler;
+      },
+    });
+  }
+
+  /**
+   * Remember a singleton so it can be disposed with the container.
+   * An instance registered under several identifiers is tracked once.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @param instance - The singleton instance
+   * @returns void
+   */
+  private trackSingleton(identifier: interfaces.ServiceIdentifier, instance: unknown): void {
+    if (instance !== this && !this.createdSingletons.some(entry => entry.instance === instance)) {
+      this.createdSingletons.push({ identifier, instance });
+    }
+  }
+
+  /**
+   * Dispose the tracked singletons in reverse creation order.
+   * 
+   * @private
+   * @param timeout - Maximum time to wait for each singleton in milliseconds
+   * @returns Promise<IDisposalFailure[]> - The singletons that failed to dispose
+   */
+  private async disposeSingletons(timeout: number): Promise<IDisposalFailure[]> {
+    const singletons = this.createdSingletons.reverse();
+    const failures: IDisposalFailure[] = [];
+    this.createdSingletons = [];
+
+    for (const { identifier, instance } of singletons) {
+      try {
+        await disposeInstanceWithin(instance, timeout);
+      } catch (error) {
+        failures.push({ identifier: DependencyGraph.labelFor(identifier as string | symbol | Function), error });
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Run the activation pipeline for a new instance.
+   * Performs property and setter injection, then global activation hooks, then extenders.
+   * 
+   * @private
+   * @param context - The inversify resolution context
+   * @param identifier - The service identifier of the binding
+   * @param instance - The new instance
+   * @returns unknown - The activated instance, or a promise of it
+   */
+  private activate(context: interfaces.Context, identifier: interfaces.ServiceIdentifier, instance: unknown): unknown {
+    if (instance && typeof instance === 'object') {
+      // Resolve injected members from the container the resolution started in
+      const resolver = context.container instanceof Container ? context.container : this;
+      try {
+        resolver.withResolutionContext(instance.constructor, () => {
+          this.propertyResolver.resolveProperties(instance, resolver, (resolve) =>
+            resolver.withResolutionContext(instance.constructor, resolve)
+          );
+          this.methodResolver.resolveSetters(instance, resolver);
+        });
+      } catch (error) {
+        resolver.metrics.record({ type: 'property-injection-failure', identifier, error });
+        throw error;
+      }
+      this.stats.propertyInjections++;
+    }
+
+    let result = instance;
+    for (const hook of this.collectHooks('activation', identifier)) {
+      result = Container.pipe(result, (value) => hook(context, value));
+    }
+    for (const extender of this.collectHooks('extend', identifier)) {
+      result = Container.pipe(result, (value) => extender(value, this));
+    }
+    return result;
+  }
+
+  /**
+   * Run the global deactivation hooks for a released singleton.
+   * 
+   * @private
+   * @param identifier - The service identifier of the binding
+   * @param instance - The released instance
+   * @returns void | Promise<void>
+   */
+  private deactivate(identifier: interfaces.ServiceIdentifier, instance: unknown): void | Promise<void> {
+    let result: unknown;
+    for (const hook of this.collectHooks('deactivation', identifier)) {
+      result = Container.pipe(result, () => hook(instance));
+    }
+    return result as void | Promise<void>;
+  }
+
+  /**
+   * Run the before resolve hooks for an identifier.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @returns void
+   */
+  private runBeforeResolve(identifier: interfaces.ServiceIdentifier): void {
+    for (const hook of this.collectHooks('beforeResolve', identifier)) {
+      hook(identifier, this);
+    }
+  }
+
+  /**
+   * Run the after resolve hooks for an identifier.
+   * 
+   * @private
+   * @template T
+   * @param identifier - The service identifier
+   * @param instance - The resolved instance
+   * @returns T - The resolved instance
+   */
+  private runAfterResolve<T>(identifier: interfaces.ServiceIdentifier, instance: T): T {
+    for (const hook of this.collectHooks('afterResolve', identifier)) {
+      hook(instance, identifier, this);
+    }
+    return instance;
+  }
+
+  /**
+   * Register a global or per identifier hook.
+   * 
+   * @private
+   * @param stage - The pipeline stage
+   * @param identifierOrHook - The service identifier, or the hook for every service
+   * @param hook - The hook, when an identifier is given
+   * @returns void
+   */
+  private addHook<K extends 'beforeResolve' | 'afterResolve'>(
+    stage: K,
+    identifierOrHook: interfaces.ServiceIdentifier | IResolutionHookTypes[K],
+    hook?: IResolutionHookTypes[K]
+  ): void {
+    if (hook === undefined) {
+      this.hooks.add(stage, identifierOrHook as IResolutionHookTypes[K]);
+    } else {
+      this.hooks.add(stage, hook, identifierOrHook as interfaces.ServiceIdentifier);
+    }
+  }
+
+  /**
+   * Collect the hooks for a stage from this container and its ancestors, outermost first.
+   * 
+   * @private
+   * @template K
+   * @param stage - The pipeline stage
+   * @param identifier - The service identifier
+   * @returns IResolutionHookTypes[K][] - The hooks in execution order
+   */
+  private collectHooks<K extends ResolutionHookStage>(stage: K, identifier: interfaces.ServiceIdentifier): IResolutionHookTypes[K][] {
+    const hooks: IResolutionHookTypes[K][] = [];
+    let container: Container | null = this;
+
+    while (container) {
+      hooks.unshift(...container.hooks.get(stage, identifier));
+      container = container.getParentContainer();
+    }
+
+    return hooks;
+  }
+
+  /**
+   * Apply a callback to a value, waiting for it first if it is a promise.
+   * 
+   * @private
+   * @static
+   * @param value - The value or promise
+   * @param callback - The callback to apply
+   * @returns unknown - The callback result, or a promise of it
+   */
+  private static pipe(value: unknown, callback: (value: any) => unknown): unknown {
+    return value instanceof Promise ? value.then(callback) : callback(value);
+  }
+
+  /**
+   * Setup error handling for the container.
+   * 
+   * @private
+   * @returns void
+   */
+  private setupErrorHandling(): void {
+    // Add error handling for binding failures
+    const originalBind = this.bind.bind(this);
+    this.bind = function<T>(serviceIdentifier: string | symbol) {
+      try {
+        return originalBind<T>(serviceIdentifier);
+      } catch (error) {
+        this.stats.errors++;
+        throw new Error(`Failed to bind service '${String(serviceIdentifier)}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }.bind(this);
+  }
+
+  /**
+   * Get the priority of a binding from its class, defaulting to 0.
+   * 
+   * @private
+   * @static
+   * @param binding - The binding
+   * @returns number - The priority
+   */
+  private static getBindingPriority(binding: interfaces.Binding<unknown>): number {
+    const source =
+      binding.type === 'Instance'
+        ? binding.implementationType
+        : binding.type === 'ConstantValue' && binding.cache
+          ? (binding.cache as object).constructor
+          : null;
+
+    return (source && Reflect.getMetadata(METADATA_KEYS.PRIORITY, source)) ?? 0;
   }
 
+  /**
+   * Default time in milliseconds each singleton is given to dispose.
+   */
+  static readonly DISPOSE_TIMEOUT = 5000;
+
   /**
    * Create a new container instance.
    * Factory method following the framework's .make() pattern.
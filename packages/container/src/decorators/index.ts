@@ -0,0 +1,10 @@
+/**
+ * Barrel export for all container decorators.
+ * Provides centralized access to the dependency injection decorators.
+ */
+
+export * from './inject.decorator';
+export * from './injectable.decorator';
+export * from './named.decorator';
+export * from './tagged.decorator';
+export * from './priority.decorator';
\ No newline at end of file
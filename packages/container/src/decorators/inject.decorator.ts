@@ -1,37 +1,64 @@
-import { inject as inversifyInject } from 'inversify';
+import { inject as inversifyInject, multiInject as inversifyMultiInject } from 'inversify';
 import { METADATA_KEYS } from '../constants/metadata-keys.constant';
 import { IPropertyInjection } from '../interfaces/property-injection.interface';
+import { IMethodInjection } from '../interfaces/method-injection.interface';
+import { ServiceIdentifier } from '../interfaces/token.interface';
+import { InjectionDecorator } from '../interfaces/injection-decorator.interface';
 
 /**
- * Injects a dependency into a constructor parameter or property.
- * Enhanced version that supports property injection.
+ * Injects a dependency into a constructor parameter, property, method parameter or setter.
+ * Enhanced version that supports property, method and setter injection.
+ * Method parameters are resolved by Container.call(); setters are injected after activation.
  * 
  * @param serviceIdentifier - The service identifier to inject
- * @returns ParameterDecorator | PropertyDecorator - The inject decorator
+ * @returns InjectionDecorator - The inject decorator
  */
-export function Inject(serviceIdentifier: string | symbol): ParameterDecorator | PropertyDecorator {
-  return function (target: any, propertyKey?: string | symbol, parameterIndex?: number) {
-    // Handle property injection
-    if (propertyKey !== undefined && parameterIndex === undefined) {
-      // This is a property decorator
-      const existingMetadata = Reflect.getMetadata(METADATA_KEYS.INJECT_PROPERTY, target.constructor) || {};
-      
+export function Inject(serviceIdentifier: ServiceIdentifier): InjectionDecorator {
+  return function (target: any, propertyKey?: string | symbol, parameterIndex?: number | PropertyDescriptor) {
+    // Handle setter injection
+    if (propertyKey !== undefined && typeof parameterIndex === 'object') {
+      if (!parameterIndex.set) {
+        throw new Error(`Cannot inject '${String(serviceIdentifier)}' into '${String(propertyKey)}': only set accessors support injection`);
+      }
+
+      const existingMetadata = { ...Reflect.getOwnMetadata(METADATA_KEYS.INJECT_SETTER, target.constructor) };
+
       existingMetadata[propertyKey] = {
         serviceIdentifier,
         optional: false,
-      } as IPropertyInjection;
-      
-      Reflect.defineMetadata(METADATA_KEYS.INJECT_PROPERTY, existingMetadata, target.constructor);
+      };
+
+      Reflect.defineMetadata(METADATA_KEYS.INJECT_SETTER, existingMetadata, target.constructor);
       return;
     }
-    
-    // Handle constructor parameter injection (delegate to InversifyJS)
-    if (parameterIndex !== undefined) {
-      return inversifyInject(serviceIdentifier)(target, propertyKey, parameterIndex);
+
+    // Handle property injection
+    if (propertyKey !== undefined && parameterIndex === undefined) {
+      // This is a property decorator
+      defineInjectedProperty(target, propertyKey, { serviceIdentifier, optional: false });
+      return;
     }
     
     // Handle method parameter injection
-    if (propertyKey !== undefined) {
+    if (propertyKey !== undefined && typeof parameterIndex === 'number') {
+      const existingMetadata = { ...Reflect.getOwnMetadata(METADATA_KEYS.INJECT_METHOD, target.constructor) };
+
+      existingMetadata[propertyKey] = [
+        ...(existingMetadata[propertyKey] || []),
+        {
+          methodKey: propertyKey,
+          parameterIndex,
+          serviceIdentifier,
+          optional: false,
+        } as IMethodInjection,
+      ];
+
+      Reflect.defineMetadata(METADATA_KEYS.INJECT_METHOD, existingMetadata, target.constructor);
+      return;
+    }
+
+    // Handle constructor parameter injection (delegate to InversifyJS)
+    if (parameterIndex !== undefined) {
       return inversifyInject(serviceIdentifier)(target, propertyKey, parameterIndex);
     }
   };
@@ -44,19 +71,82 @@ export function Inject(serviceIdentifier: string | symbol): ParameterDecorator |
  * @param serviceIdentifier - The service identifier to inject
  * @returns PropertyDecorator - The optional inject decorator
  */
-export function InjectOptional(serviceIdentifier: string | symbol): PropertyDecorator {
+export function InjectOptional(serviceIdentifier: ServiceIdentifier): PropertyDecorator {
   return function (target: any, propertyKey: string | symbol) {
-    const existingMetadata = Reflect.getMetadata(METADATA_KEYS.INJECT_PROPERTY, target.constructor) || {};
-    
-    existingMetadata[propertyKey] = {
-      serviceIdentifier,
-      optional: true,
-    } as IPropertyInjection;
-    
-    Reflect.defineMetadata(METADATA_KEYS.INJECT_PROPERTY, existingMetadata, target.constructor);
+    defineInjectedProperty(target, propertyKey, { serviceIdentifier, optional: true });
   };
 }
 
+/**
+ * Injects a dependency into a property on first access instead of on activation.
+ * Defers construction of services a code path may never use and breaks
+ * cycles between property dependencies.
+ * 
+ * @param serviceIdentifier - The service identifier to inject
+ * @returns PropertyDecorator - The lazy inject decorator
+ */
+export function InjectLazy(serviceIdentifier: ServiceIdentifier): PropertyDecorator {
+  return function (target: any, propertyKey: string | symbol) {
+    defineInjectedProperty(target, propertyKey, { serviceIdentifier, optional: false, lazy: true });
+  };
+}
+
+/**
+ * Injects every binding of a service identifier as an array into a constructor parameter or property.
+ * Bindings are ordered by priority (see @Priority), highest first. A property
+ * receives an empty array when nothing is bound.
+ * 
+ * @param serviceIdentifier - The service identifier to inject
+ * @returns InjectionDecorator - The inject all decorator
+ */
+export function InjectAll(serviceIdentifier: ServiceIdentifier): InjectionDecorator {
+  return function (target: any, propertyKey?: string | symbol, parameterIndex?: number | PropertyDescriptor) {
+    // Handle property injection
+    if (propertyKey !== undefined && parameterIndex === undefined) {
+      defineInjectedProperty(target, propertyKey, { serviceIdentifier, optional: false, all: true });
+      return;
+    }
+
+    if (propertyKey !== undefined) {
+      throw new Error(`Cannot inject all '${String(serviceIdentifier)}' into method '${String(propertyKey)}': only constructor parameters and properties are supported`);
+    }
+
+    // Handle constructor parameter injection (delegate to InversifyJS)
+    return inversifyMultiInject(serviceIdentifier)(target, propertyKey, parameterIndex!);
+  };
+}
+
+/**
+ * Injects every service tagged with Container.tag() as an array into a property.
+ * Services are ordered by priority (see @Priority), highest first.
+ * 
+ * @param tag - The tag to collect
+ * @returns PropertyDecorator - The inject all tagged decorator
+ */
+export function InjectAllTagged(tag: string | symbol): PropertyDecorator {
+  return function (target: any, propertyKey: string | symbol) {
+    defineInjectedProperty(target, propertyKey, { serviceIdentifier: tag, optional: false, tag });
+  };
+}
+
+/**
+ * Record a property injection in the metadata of a class.
+ * The metadata, including the entries inherited from parent classes, is copied
+ * before it is extended, so decorating a subclass never changes its parent class.
+ * 
+ * @param target - The class prototype
+ * @param propertyKey - The injected property
+ * @param injection - The property injection settings
+ * @returns void
+ */
+function defineInjectedProperty(target: any, propertyKey: string | symbol, injection: Omit<IPropertyInjection, 'propertyKey'>): void {
+  const existingMetadata = { ...Reflect.getMetadata(METADATA_KEYS.INJECT_PROPERTY, target.constructor) };
+
+  existingMetadata[propertyKey] = injection;
+
+  Reflect.defineMetadata(METADATA_KEYS.INJECT_PROPERTY, existingMetadata, target.constructor);
+}
+
 /**
  * Alternative export for consistency with InversifyJS naming.
  */
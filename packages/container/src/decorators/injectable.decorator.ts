@@ -1,13 +1,24 @@
 import { injectable as inversifyInjectable } from 'inversify';
+import { METADATA_KEYS } from '../constants/metadata-keys.constant';
+import { IInjectableOptions } from '../interfaces/injectable-options.interface';
 
 /**
  * Marks a class as injectable for dependency injection.
  * This is a wrapper around InversifyJS's @injectable decorator.
+ * The options are read by Container.scan() and Container.autoRegister().
  * 
+ * @param options - Optional auto-registration options
  * @returns ClassDecorator - The injectable decorator
  */
-export function Injectable(): ClassDecorator {
-  return inversifyInjectable();
+export function Injectable(options: IInjectableOptions = {}): ClassDecorator {
+  return function (target: any) {
+    inversifyInjectable()(target);
+    Reflect.defineMetadata(METADATA_KEYS.INJECTABLE_OPTIONS, options, target);
+    if (options.priority !== undefined) {
+      Reflect.defineMetadata(METADATA_KEYS.PRIORITY, options.priority, target);
+    }
+    return target;
+  };
 }
 
 /**
@@ -1,14 +1,15 @@
 import { named as inversifyNamed } from 'inversify';
+import { InjectionDecorator } from '../interfaces/injection-decorator.interface';
 
 /**
  * Adds a named constraint to an injection.
  * This is a wrapper around InversifyJS's @named decorator.
  * 
  * @param name - The name constraint
- * @returns ParameterDecorator | PropertyDecorator - The named decorator
+ * @returns InjectionDecorator - The named decorator
  */
-export function Named(name: string | number | symbol): ParameterDecorator | PropertyDecorator {
-  return inversifyNamed(name);
+export function Named(name: string | number | symbol): InjectionDecorator {
+  return inversifyNamed(name) as InjectionDecorator;
 }
 
 /**
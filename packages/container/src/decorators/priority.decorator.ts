@@ -0,0 +1,21 @@
+import { METADATA_KEYS } from '../constants/metadata-keys.constant';
+
+/**
+ * Sets the priority of a class among other bindings of the same token or tag.
+ * Higher priorities are resolved first by getAll(), tagged() and @InjectAll;
+ * classes without a priority default to 0 and keep their registration order.
+ * 
+ * @param value - The priority
+ * @returns ClassDecorator - The priority decorator
+ */
+export function Priority(value: number): ClassDecorator {
+  return function (target: any) {
+    Reflect.defineMetadata(METADATA_KEYS.PRIORITY, value, target);
+    return target;
+  };
+}
+
+/**
+ * Alternative export for consistency with the framework's decorator naming.
+ */
+export const priority = Priority;
\ No newline at end of file
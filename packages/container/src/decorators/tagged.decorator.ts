@@ -1,4 +1,5 @@
 import { tagged as inversifyTagged } from 'inversify';
+import { InjectionDecorator } from '../interfaces/injection-decorator.interface';
 
 /**
  * Adds a tagged constraint to an injection.
@@ -6,10 +7,10 @@ import { tagged as inversifyTagged } from 'inversify';
  * 
  * @param key - The tag key
  * @param value - The tag value
- * @returns ParameterDecorator | PropertyDecorator - The tagged decorator
+ * @returns InjectionDecorator - The tagged decorator
  */
-export function Tagged(key: string | number | symbol, value: any): ParameterDecorator | PropertyDecorator {
-  return inversifyTagged(key, value);
+export function Tagged(key: string | number | symbol, value: any): InjectionDecorator {
+  return inversifyTagged(key, value) as InjectionDecorator;
 }
 
 /**
@@ -17,11 +17,13 @@ export enum BindingScope {
 
   /**
    * Creates a single instance per request scope.
+   * Scopes are created with Container.createScope().
    */
   REQUEST = 'request',
 
   /**
-   * Creates a single instance per container hierarchy.
+   * Creates a single instance per container.
+   * Each child container resolves its own instance.
    */
   CONTAINER = 'container',
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { IDisposalFailure } from '../interfaces/disposal.interface';
+
+/**
+ * Error thrown when one or more services fail to dispose.
+ * Every service is given a chance to clean up before the error is thrown.
+ * 
+ * @class DisposalError
+ * @extends {Error}
+ */
+export class DisposalError extends Error {
+  /**
+   * The services that failed to dispose, in disposal order.
+   */
+  readonly failures: IDisposalFailure[];
+
+  /**
+   * Creates a new disposal error.
+   * 
+   * @param failures - The services that failed to dispose
+   */
+  constructor(failures: IDisposalFailure[]) {
+    super(
+      `Failed to dispose ${failures.length} service(s): ${failures
+        .map(({ identifier, error }) => `'${identifier}': ${error instanceof Error ? error.message : String(error)}`)
+        .join('; ')}`
+    );
+    Object.setPrototypeOf(this, DisposalError.prototype);
+    this.name = 'DisposalError';
+    this.failures = failures;
+  }
+
+  /**
+   * Create a new disposal error instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param failures - The services that failed to dispose
+   * @returns DisposalError - A new disposal error
+   */
+  static make(failures: IDisposalFailure[]): DisposalError {
+    return new DisposalError(failures);
+  }
+}
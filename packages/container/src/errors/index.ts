@@ -0,0 +1,7 @@
+/**
+ * Barrel export for all container errors.
+ * Provides centralized access to container error classes.
+ */
+
+export * from './resolution-error';
+export * from './disposal-error';
@@ -0,0 +1,202 @@
+/**
+ * Kinds of bindings the container tries when resolving a service.
+ */
+export type ResolutionAttempt = 'binding' | 'contextual' | 'lazy' | 'property' | 'deferred provider';
+
+/**
+ * Error thrown when a service cannot be resolved.
+ * Carries the dependency path that led to the failure, the binding kinds
+ * that were tried and suggestions from similarly named bound identifiers.
+ * 
+ * @class ResolutionError
+ * @extends {Error}
+ */
+export class ResolutionError extends Error {
+  /**
+   * The service identifier that could not be resolved.
+   */
+  readonly identifier: string | symbol | Function;
+
+  /**
+   * Labels of the services that led to the failure, ending with the unresolvable one.
+   */
+  readonly path: string[];
+
+  /**
+   * The binding kinds that were tried.
+   */
+  readonly attempted: ResolutionAttempt[];
+
+  /**
+   * Labels of bound identifiers with a similar name.
+   */
+  readonly suggestions: string[];
+
+  /**
+   * The underlying error.
+   */
+  readonly cause: unknown;
+
+  /**
+   * Creates a new resolution error.
+   * 
+   * @param identifier - The service identifier that could not be resolved
+   * @param path - The dependency path, ending with the unresolvable service
+   * @param attempted - The binding kinds that were tried
+   * @param suggestions - Similarly named bound identifiers
+   * @param cause - The underlying error
+   */
+  constructor(
+    identifier: string | symbol | Function,
+    path: string[],
+    attempted: ResolutionAttempt[],
+    suggestions: string[] = [],
+    cause?: unknown
+  ) {
+    super(ResolutionError.formatMessage(path, attempted, suggestions, cause));
+    Object.setPrototypeOf(this, ResolutionError.prototype);
+    this.name = 'ResolutionError';
+    this.identifier = identifier;
+    this.path = path;
+    this.attempted = attempted;
+    this.suggestions = suggestions;
+    this.cause = cause;
+  }
+
+  /**
+   * Get the dependency path as a readable chain.
+   * 
+   * @returns string - The chain, e.g. `UserController -> UserService -> ICache`
+   */
+  getChain(): string {
+    return this.path.join(' -> ');
+  }
+
+  /**
+   * Create a copy of the error that also lists another binding kind as tried.
+   * Used by callers that look beyond the container, e.g. deferred service providers.
+   * 
+   * @param attempt - The additional binding kind
+   * @returns ResolutionError - The updated error
+   */
+  withAttempt(attempt: ResolutionAttempt): ResolutionError {
+    if (this.attempted.includes(attempt)) {
+      return this;
+    }
+
+    return new ResolutionError(this.identifier, this.path, [...this.attempted, attempt], this.suggestions, this.cause);
+  }
+
+  /**
+   * Build the error message.
+   * 
+   * @private
+   * @static
+   * @param path - The dependency path
+   * @param attempted - The binding kinds that were tried
+   * @param suggestions - Similarly named bound identifiers
+   * @param cause - The underlying error
+   * @returns string - The message
+   */
+  private static formatMessage(
+    path: string[],
+    attempted: ResolutionAttempt[],
+    suggestions: string[],
+    cause: unknown
+  ): string {
+    const reason = cause instanceof Error ? cause.message.split('\n')[0] : cause !== undefined ? String(cause) : '';
+    let message = `Cannot resolve service '${path[path.length - 1]}'`;
+
+    if (path.length > 1) {
+      message += ` (${path.join(' -> ')})`;
+    }
+    if (reason) {
+      message += `: ${reason}`;
+    }
+
+    message += `. Tried: ${attempted.join(', ')}.`;
+
+    if (suggestions.length > 0) {
+      message += ` Did you mean ${suggestions.map(suggestion => `'${suggestion}'`).join(' or ')}?`;
+    }
+
+    return message;
+  }
+
+  /**
+   * Find the candidates with a name similar to a label.
+   * Candidates within a small edit distance, or containing the label, are returned closest first.
+   * 
+   * @static
+   * @param label - The label of the unresolvable identifier
+   * @param candidates - Labels of the bound identifiers
+   * @param limit - Maximum number of suggestions
+   * @returns string[] - The suggestions
+   */
+  static suggest(label: string, candidates: string[], limit: number = 3): string[] {
+    const target = label.toLowerCase();
+    const threshold = Math.max(2, Math.floor(target.length / 3));
+
+    return Array.from(new Set(candidates))
+      .filter(candidate => candidate !== label)
+      .map(candidate => {
+        const value = candidate.toLowerCase();
+        const distance = ResolutionError.distance(target, value);
+        const related = value.includes(target) || target.includes(value);
+        return { candidate, distance, similar: distance <= threshold || related };
+      })
+      .filter(entry => entry.similar)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(entry => entry.candidate);
+  }
+
+  /**
+   * Compute the Levenshtein distance between two strings.
+   * 
+   * @private
+   * @static
+   * @param a - The first string
+   * @param b - The second string
+   * @returns number - The edit distance
+   */
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * Create a new resolution error instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param identifier - The service identifier that could not be resolved
+   * @param path - The dependency path, ending with the unresolvable service
+   * @param attempted - The binding kinds that were tried
+   * @param suggestions - Similarly named bound identifiers
+   * @param cause - The underlying error
+   * @returns ResolutionError - A new resolution error
+   */
+  static make(
+    identifier: string | symbol | Function,
+    path: string[],
+    attempted: ResolutionAttempt[],
+    suggestions: string[] = [],
+    cause?: unknown
+  ): ResolutionError {
+    return new ResolutionError(identifier, path, attempted, suggestions, cause);
+  }
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext } from 'react';
 import { IContainer } from '../../interfaces/container.interface';
+import { ServiceIdentifier } from '../../interfaces/token.interface';
 import { Container } from '../../container';
 
 /**
@@ -21,7 +22,7 @@ export interface ContainerContextValue {
    * @param identifier - The service identifier
    * @returns T - The resolved service instance
    */
-  resolve: <T>(identifier: string | symbol) => T;
+  resolve: <T>(identifier: ServiceIdentifier<T>) => T;
 
   /**
    * Checks if a service is bound in the container.
@@ -29,7 +30,7 @@ export interface ContainerContextValue {
    * @param identifier - The service identifier
    * @returns boolean - True if the service is bound
    */
-  isBound: (identifier: string | symbol) => boolean;
+  isBound: (identifier: ServiceIdentifier) => boolean;
 
   /**
    * Creates a child container.
@@ -1,6 +1,7 @@
 import React, { ReactNode, useMemo } from 'react';
 import { ContainerContext, ContainerContextValue } from '../contexts/container-context';
 import { IContainer } from '../../interfaces/container.interface';
+import { ServiceIdentifier } from '../../interfaces/token.interface';
 import { Container } from '../../container';
 
 /**
@@ -42,8 +43,8 @@ export const ContainerProvider: React.FC<ContainerProviderProps> = ({
     
     return {
       container,
-      resolve: <T>(identifier: string | symbol) => container.get<T>(identifier),
-      isBound: (identifier: string | symbol) => container.isBound(identifier),
+      resolve: <T>(identifier: ServiceIdentifier<T>) => container.get<T>(identifier),
+      isBound: (identifier: ServiceIdentifier) => container.isBound(identifier),
       createChild: () => container.createChild(),
     };
   }, [customContainer]);
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useContainerContext } from './contexts/container-context';
+import { ServiceIdentifier } from '../interfaces/token.interface';
 
 /**
  * Hook for injecting dependencies in React components.
@@ -9,7 +10,7 @@ import { useContainerContext } from './contexts/container-context';
  * @param identifier - The service identifier to inject
  * @returns T - The resolved service instance
  */
-export const useInject = <T>(identifier: string | symbol): T => {
+export const useInject = <T>(identifier: ServiceIdentifier<T>): T => {
   const { resolve } = useContainerContext();
   return resolve<T>(identifier);
 };
@@ -24,7 +25,7 @@ export const useInjector = () => {
   const { resolve } = useContainerContext();
   
   return useCallback(
-    <T>(identifier: string | symbol): T => resolve<T>(identifier),
+    <T>(identifier: ServiceIdentifier<T>): T => resolve<T>(identifier),
     [resolve]
   );
 };
@@ -35,7 +36,7 @@ export const useInjector = () => {
  * @param identifier - The service identifier to check
  * @returns boolean - True if the service is bound
  */
-export const useCanInject = (identifier: string | symbol): boolean => {
+export const useCanInject = (identifier: ServiceIdentifier): boolean => {
   const { isBound } = useContainerContext();
   return isBound(identifier);
 };
\ No newline at end of file
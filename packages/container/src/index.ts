@@ -16,6 +16,9 @@ export * from './enums';
 // Constants
 export * from './constants';
 
+// Errors
+export * from './errors';
+
 // Decorators
 export * from './decorators';
 
@@ -0,0 +1,16 @@
+import { interfaces } from 'inversify';
+
+/**
+ * Configuration options for creating a child container.
+ * Extends the InversifyJS container options with inheritance controls.
+ * 
+ * @interface IChildContainerOptions
+ */
+export interface IChildContainerOptions extends interfaces.ContainerOptions {
+  /**
+   * Service identifiers the child must not inherit from its parent.
+   * Bindings, contextual bindings, lazy services and metadata for these
+   * identifiers are only looked up in the child itself.
+   */
+  isolate?: (string | symbol)[];
+}
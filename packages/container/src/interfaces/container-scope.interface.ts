@@ -0,0 +1,46 @@
+/**
+ * Interface for a disposable resolution scope.
+ * Request scoped services are shared for the lifetime of the scope.
+ * 
+ * @interface IContainerScope
+ */
+export interface IContainerScope {
+  /**
+   * Resolve a service within this scope.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns T - The resolved service instance
+   */
+  get<T>(identifier: string | symbol): T;
+
+  /**
+   * Resolve a service within this scope, awaiting any asynchronous factories.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   */
+  getAsync<T>(identifier: string | symbol): Promise<T>;
+
+  /**
+   * Get the instances created for this scope, in creation order.
+   * 
+   * @returns unknown[] - The scoped instances
+   */
+  getInstances(): unknown[];
+
+  /**
+   * Check if this scope has been disposed.
+   * 
+   * @returns boolean - True if the scope has been disposed
+   */
+  isDisposed(): boolean;
+
+  /**
+   * Dispose the scope and every scoped instance it created.
+   * 
+   * @returns Promise<void>
+   */
+  dispose(): Promise<void>;
+}
@@ -0,0 +1,76 @@
+import type { ContextualBindingManager } from '../utilities/contextual-binding-manager';
+import type { ResolutionHooks } from '../utilities/resolution-hooks';
+
+/**
+ * Interface for a point-in-time capture of a container's state.
+ * Created by Container.snapshot() and consumed by Container.restore().
+ * 
+ * @interface IContainerSnapshot
+ */
+export interface IContainerSnapshot {
+  /**
+   * When the snapshot was taken.
+   */
+  readonly createdAt: Date;
+
+  /**
+   * Lazy service factories at the time of the snapshot.
+   */
+  readonly lazyServices: Map<string | symbol | Function, () => any>;
+
+  /**
+   * Service metadata at the time of the snapshot.
+   */
+  readonly serviceMetadata: Map<string | symbol | Function, any>;
+
+  /**
+   * Container scoped instances at the time of the snapshot.
+   */
+  readonly containerInstances: Map<string | symbol | Function, any>;
+
+  /**
+   * Tagged service identifiers at the time of the snapshot.
+   */
+  readonly tags: Map<string | symbol, Array<string | symbol | Function>>;
+
+  /**
+   * Copy of the contextual bindings at the time of the snapshot.
+   */
+  readonly contextualBindings: ContextualBindingManager;
+
+  /**
+   * Copy of the resolution hooks at the time of the snapshot.
+   */
+  readonly hooks: ResolutionHooks;
+
+  /**
+   * Container statistics at the time of the snapshot.
+   */
+  readonly stats: Record<string, number>;
+}
+
+/**
+ * Interface for a handle returned by Container.override().
+ * 
+ * @interface IBindingOverride
+ */
+export interface IBindingOverride {
+  /**
+   * The overridden service identifier.
+   */
+  readonly identifier: string | symbol | Function;
+
+  /**
+   * Revert the override, restoring the bindings that were replaced.
+   * 
+   * @returns void
+   */
+  restore(): void;
+
+  /**
+   * Check if the override has been reverted.
+   * 
+   * @returns boolean - True if the override has been reverted
+   */
+  isRestored(): boolean;
+}
@@ -1,4 +1,20 @@
 import { Container as InversifyContainer, interfaces } from 'inversify';
+import { IContainerValidationResult } from './dependency-graph.interface';
+import { IContainerScope } from './container-scope.interface';
+import { IChildContainerOptions } from './child-container-options.interface';
+import { IContainerSnapshot, IBindingOverride } from './container-snapshot.interface';
+import { IInjectableOptions } from './injectable-options.interface';
+import { IDisposeOptions } from './disposal.interface';
+import { ServiceIdentifier } from './token.interface';
+import {
+  BeforeResolveHook,
+  AfterResolveHook,
+  ActivationHook,
+  DeactivationHook,
+  ServiceExtender,
+} from './resolution-hooks.interface';
+import { IServiceMetrics, ResolutionEventListener } from './resolution-metrics.interface';
+import type { DependencyGraph } from '../utilities/dependency-graph';
 
 /**
  * Extended container interface that builds upon InversifyJS Container.
@@ -16,7 +32,7 @@ export interface IContainer extends InversifyContainer {
    * @param factory - Factory function to create the service
    * @returns T - The service instance
    */
-  lazyLoad<T>(identifier: string | symbol, factory: () => T): T;
+  lazyLoad<T>(identifier: ServiceIdentifier<T>, factory: () => T): T;
 
   /**
    * Register a service with automatic dependency resolution.
@@ -24,13 +40,13 @@ export interface IContainer extends InversifyContainer {
    * @template T
    * @param identifier - The service identifier
    * @param implementation - The service implementation
-   * @param scope - The binding scope (singleton, transient, request)
+   * @param scope - The binding scope (singleton, transient, request, container)
    * @returns void
    */
   register<T>(
-    identifier: string | symbol,
+    identifier: ServiceIdentifier<T>,
     implementation: interfaces.Newable<T> | T,
-    scope?: 'singleton' | 'transient' | 'request'
+    scope?: 'singleton' | 'transient' | 'request' | 'container'
   ): void;
 
   /**
@@ -41,7 +57,51 @@ export interface IContainer extends InversifyContainer {
    * @param implementation - The service implementation
    * @returns void
    */
-  singleton<T>(identifier: string | symbol, implementation: interfaces.Newable<T> | T): void;
+  singleton<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T> | T): void;
+
+  /**
+   * Register a service created by an asynchronous factory.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param factory - Async factory function to create the service
+   * @param scope - The binding scope (singleton, transient, request)
+   * @returns void
+   */
+  bindAsync<T>(
+    identifier: ServiceIdentifier<T>,
+    factory: (container: IContainer) => Promise<T>,
+    scope?: 'singleton' | 'transient' | 'request'
+  ): void;
+
+  /**
+   * Register a singleton service created by an asynchronous factory.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param factory - Async factory function to create the service
+   * @returns void
+   */
+  singletonAsync<T>(identifier: ServiceIdentifier<T>, factory: (container: IContainer) => Promise<T>): void;
+
+  /**
+   * Resolve a service.
+   * Typed tokens infer the service type.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns T - The service instance
+   */
+  get<T>(identifier: ServiceIdentifier<T>): T;
+
+  /**
+   * Resolve a service, awaiting any asynchronous factories.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   */
+  getAsync<T>(identifier: ServiceIdentifier<T>): Promise<T>;
 
   /**
    * Register a transient service.
@@ -51,7 +111,51 @@ export interface IContainer extends InversifyContainer {
    * @param implementation - The service implementation
    * @returns void
    */
-  transient<T>(identifier: string | symbol, implementation: interfaces.Newable<T>): void;
+  transient<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T>): void;
+
+  /**
+   * Register a service scoped to a resolution scope.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param implementation - The service implementation
+   * @returns void
+   */
+  scoped<T>(identifier: ServiceIdentifier<T>, implementation: interfaces.Newable<T>): void;
+
+  /**
+   * Create a disposable resolution scope.
+   * 
+   * @returns IContainerScope - The new scope
+   */
+  createScope(): IContainerScope;
+
+  /**
+   * Run a callback with resolutions performed inside the given scope.
+   * 
+   * @template T
+   * @param scope - The scope to resolve in
+   * @param callback - The callback to run
+   * @returns T - The callback result
+   */
+  withScope<T>(scope: IContainerScope, callback: () => T): T;
+
+  /**
+   * Run a callback with a scope bound to the current async context.
+   * 
+   * @template T
+   * @param callback - The callback to run
+   * @param scope - Optional existing scope to run in
+   * @returns Promise<T> - The callback result
+   */
+  runInScope<T>(callback: (scope: IContainerScope) => T | Promise<T>, scope?: IContainerScope): Promise<T>;
+
+  /**
+   * Get the scope resolutions are currently performed in.
+   * 
+   * @returns IContainerScope | null - The active scope or null
+   */
+  getActiveScope(): IContainerScope | null;
 
   /**
    * Resolve all services bound to an identifier.
@@ -60,7 +164,7 @@ export interface IContainer extends InversifyContainer {
    * @param identifier - The service identifier
    * @returns T[] - Array of resolved service instances
    */
-  getAll<T>(identifier: string | symbol): T[];
+  getAll<T>(identifier: ServiceIdentifier<T>): T[];
 
   /**
    * Check if a service can be resolved (including lazy loaded services).
@@ -68,7 +172,7 @@ export interface IContainer extends InversifyContainer {
    * @param identifier - The service identifier
    * @returns boolean - True if the service can be resolved
    */
-  canResolve(identifier: string | symbol): boolean;
+  canResolve(identifier: string | symbol | Function): boolean;
 
   /**
    * Get service metadata.
@@ -76,12 +180,194 @@ export interface IContainer extends InversifyContainer {
    * @param identifier - The service identifier
    * @returns any - Service metadata
    */
-  getMetadata(identifier: string | symbol): any;
+  getMetadata(identifier: string | symbol | Function): any;
+
+  /**
+   * Build the dependency graph of every binding in the container.
+   * 
+   * @returns DependencyGraph - The dependency graph
+   */
+  getDependencyGraph(): DependencyGraph;
+
+  /**
+   * Validate every binding for dependency cycles and missing dependencies.
+   * 
+   * @returns IContainerValidationResult - The validation result
+   */
+  validate(): IContainerValidationResult;
+
+  /**
+   * Register a hook called before services are resolved, for every service or one identifier.
+   * 
+   * @param identifierOrHook - The service identifier, or the hook for every service
+   * @param hook - The hook, when an identifier is given
+   * @returns void
+   */
+  beforeResolve(identifierOrHook: interfaces.ServiceIdentifier | BeforeResolveHook, hook?: BeforeResolveHook): void;
+
+  /**
+   * Register a hook called with resolved services, for every service or one identifier.
+   * 
+   * @param identifierOrHook - The service identifier, or the hook for every service
+   * @param hook - The hook, when an identifier is given
+   * @returns void
+   */
+  afterResolve(identifierOrHook: interfaces.ServiceIdentifier | AfterResolveHook, hook?: AfterResolveHook): void;
+
+  /**
+   * Register an activation handler for every service or one identifier.
+   * 
+   * @template T
+   * @param identifierOrHandler - The service identifier, or the handler for every service
+   * @param handler - The handler, when an identifier is given
+   * @returns void
+   */
+  onActivation<T = unknown>(handler: ActivationHook<T>): void;
+  onActivation<T = unknown>(identifier: interfaces.ServiceIdentifier<T>, handler: ActivationHook<T>): void;
+
+  /**
+   * Register a deactivation handler for every service or one identifier.
+   * 
+   * @template T
+   * @param identifierOrHandler - The service identifier, or the handler for every service
+   * @param handler - The handler, when an identifier is given
+   * @returns void
+   */
+  onDeactivation<T = unknown>(handler: DeactivationHook<T>): void;
+  onDeactivation<T = unknown>(identifier: interfaces.ServiceIdentifier<T>, handler: DeactivationHook<T>): void;
+
+  /**
+   * Decorate a service without replacing its binding.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param extender - Function returning the decorated instance
+   * @returns void
+   */
+  extend<T>(identifier: ServiceIdentifier<T>, extender: ServiceExtender<T>): void;
+
+  /**
+   * Enable or disable per-service resolution metrics.
+   * 
+   * @param enabled - Whether metrics should be recorded
+   * @returns void
+   */
+  enableMetrics(enabled?: boolean): void;
+
+  /**
+   * Get the resolution metrics of every service, slowest first.
+   * 
+   * @returns IServiceMetrics[] - The service metrics
+   */
+  getServiceMetrics(): IServiceMetrics[];
+
+  /**
+   * Get the resolution metrics of every service as a plain text table.
+   * 
+   * @returns string - The metrics table
+   */
+  getMetricsTable(): string;
+
+  /**
+   * Subscribe to resolution events.
+   * 
+   * @param listener - The listener to call for every event
+   * @returns () => void - Function that unsubscribes the listener
+   */
+  onResolutionEvent(listener: ResolutionEventListener): () => void;
+
+  /**
+   * Call a method on an instance, resolving its @Inject parameters from the container.
+   * 
+   * @template R
+   * @param instance - The instance to call the method on
+   * @param method - The method name
+   * @param parameters - Explicit arguments, by position
+   * @returns R - The method's return value
+   */
+  call<R = any>(instance: object, method: string | symbol, parameters?: any[]): R;
+
+  /**
+   * Bind classes using the options given to their @Injectable decorator.
+   * 
+   * @param classes - The classes to register
+   * @param options - Optional defaults for classes without decorator options
+   * @returns Array<string | symbol | Function> - The identifiers that were bound
+   */
+  autoRegister(classes: Function[], options?: IInjectableOptions): Array<string | symbol | Function>;
+
+  /**
+   * Bind every @Injectable class exported by the given modules.
+   * 
+   * @param modules - Module namespaces (or classes) to scan
+   * @returns Array<string | symbol | Function> - The identifiers that were bound
+   */
+  scan(modules: Array<Record<string, unknown> | Function>): Array<string | symbol | Function>;
+
+  /**
+   * Group services under a tag so they can be resolved together with tagged().
+   * 
+   * @param identifiers - The service identifiers to tag
+   * @param tag - The tag
+   * @returns void
+   */
+  tag(identifiers: ServiceIdentifier | Function | Array<ServiceIdentifier | Function>, tag: string | symbol): void;
+
+  /**
+   * Resolve every service grouped under a tag, highest priority first.
+   * 
+   * @template T
+   * @param tag - The tag
+   * @returns T[] - The resolved services
+   */
+  tagged<T = unknown>(tag: string | symbol): T[];
+
+  /**
+   * Capture the current state of the container.
+   * 
+   * @returns IContainerSnapshot - The snapshot
+   */
+  snapshot(): IContainerSnapshot;
+
+  /**
+   * Restore the container to a snapshot, or to the latest snapshot when none is given.
+   * 
+   * @param snapshot - Optional snapshot to restore
+   * @returns void
+   */
+  restore(snapshot?: IContainerSnapshot): void;
+
+  /**
+   * Temporarily replace a service with the given value.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @param value - The value to resolve instead
+   * @returns IBindingOverride - Handle that reverts the override
+   */
+  override<T>(identifier: ServiceIdentifier<T>, value: T): IBindingOverride;
+
+  /**
+   * Unbind every service, disposing the singletons this container created first.
+   * 
+   * @param options - Optional disposal configuration
+   * @returns Promise<void>
+   */
+  unbindAllAsync(options?: IDisposeOptions): Promise<void>;
+
+  /**
+   * Dispose the container, releasing every singleton, binding and lazy factory it owns.
+   * 
+   * @param options - Optional disposal configuration
+   * @returns Promise<void>
+   */
+  dispose(options?: IDisposeOptions): Promise<void>;
 
   /**
    * Create a child container that inherits from this container.
    * 
+   * @param options - Optional child container configuration
    * @returns IContainer - The child container
    */
-  createChild(): IContainer;
+  createChild(options?: IChildContainerOptions): IContainer;
 }
\ No newline at end of file
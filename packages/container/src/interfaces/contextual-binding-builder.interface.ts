@@ -1,3 +1,5 @@
+import { ServiceIdentifier } from './token.interface';
+
 /**
  * Interface for contextual binding builder.
  * Provides fluent API for creating contextual bindings.
@@ -8,10 +10,11 @@ export interface IContextualBindingBuilder {
   /**
    * Specify what service is needed in this context.
    * 
+   * @template T
    * @param identifier - The service identifier
-   * @returns IContextualBindingNeedsBuilder
+   * @returns IContextualBindingNeedsBuilder<T>
    */
-  needs(identifier: string | symbol): IContextualBindingNeedsBuilder;
+  needs<T = any>(identifier: ServiceIdentifier<T>): IContextualBindingNeedsBuilder<T>;
 }
 
 /**
@@ -19,15 +22,16 @@ export interface IContextualBindingBuilder {
  * Continues the fluent API for specifying what to provide.
  * 
  * @interface IContextualBindingNeedsBuilder
+ * @template T - The service type
  */
-export interface IContextualBindingNeedsBuilder {
+export interface IContextualBindingNeedsBuilder<T = any> {
   /**
    * Specify what implementation to provide.
    * 
    * @param implementation - The implementation to provide
    * @returns void
    */
-  give(implementation: any | (() => any)): void;
+  give(implementation: T | ((context: any) => T)): void;
 
   /**
    * Specify what implementation to provide with a specific scope.
@@ -36,5 +40,5 @@ export interface IContextualBindingNeedsBuilder {
    * @param scope - The binding scope
    * @returns void
    */
-  giveScoped(implementation: any | (() => any), scope: 'singleton' | 'transient' | 'request'): void;
+  giveScoped(implementation: T | ((context: any) => T), scope: 'singleton' | 'transient' | 'request'): void;
 }
\ No newline at end of file
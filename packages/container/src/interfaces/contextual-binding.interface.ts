@@ -13,12 +13,13 @@ export interface IContextualBinding {
   /**
    * The service identifier that needs contextual binding.
    */
-  needs: string | symbol;
+  needs: string | symbol | Function;
 
   /**
    * The implementation to provide in this context.
+   * Factories are called with the requesting context.
    */
-  give: any | (() => any);
+  give: any | ((context: any) => any);
 
   /**
    * Optional binding scope for this contextual binding.
@@ -0,0 +1,98 @@
+/**
+ * Interface for a node in the container dependency graph.
+ * Each node represents a service identifier known to the container.
+ * 
+ * @interface IDependencyNode
+ */
+export interface IDependencyNode {
+  /**
+   * The service identifier represented by this node.
+   */
+  identifier: string | symbol | Function;
+
+  /**
+   * Human readable label for the identifier.
+   */
+  label: string;
+
+  /**
+   * Name of the implementation bound to the identifier, if known.
+   */
+  implementation?: string;
+
+  /**
+   * Whether the identifier can be resolved by the container.
+   */
+  bound: boolean;
+}
+
+/**
+ * Interface for an edge in the container dependency graph.
+ * An edge points from a service to one of its dependencies.
+ * 
+ * @interface IDependencyEdge
+ */
+export interface IDependencyEdge {
+  /**
+   * The identifier of the service that requires the dependency.
+   */
+  from: string | symbol | Function;
+
+  /**
+   * The identifier of the required dependency.
+   */
+  to: string | symbol | Function;
+
+  /**
+   * How the dependency is injected.
+   */
+  kind: 'constructor' | 'property';
+
+  /**
+   * Whether the dependency is optional.
+   */
+  optional: boolean;
+
+  /**
+   * Whether the dependency is resolved on first access, see @InjectLazy.
+   * Lazy dependencies do not form cycles.
+   */
+  lazy?: boolean;
+
+  /**
+   * The property key for property dependencies.
+   */
+  propertyKey?: string | symbol;
+}
+
+/**
+ * Interface for the result of validating a container.
+ * 
+ * @interface IContainerValidationResult
+ */
+export interface IContainerValidationResult {
+  /**
+   * Whether the container has no cycles and no missing bindings.
+   */
+  valid: boolean;
+
+  /**
+   * Dependency cycles, each given as the chain of labels that forms the cycle.
+   */
+  cycles: string[][];
+
+  /**
+   * Required dependencies that have no binding.
+   */
+  missing: Array<{ identifier: string; requiredBy: string }>;
+
+  /**
+   * Human readable descriptions of every problem found.
+   */
+  errors: string[];
+}
+
+/**
+ * Supported dependency graph export formats.
+ */
+export type DependencyGraphFormat = 'dot' | 'mermaid' | 'json';
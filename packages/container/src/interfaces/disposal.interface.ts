@@ -0,0 +1,28 @@
+/**
+ * Interface for options accepted when a container disposes its services.
+ * 
+ * @interface IDisposeOptions
+ */
+export interface IDisposeOptions {
+  /**
+   * Maximum time in milliseconds to wait for each service to dispose.
+   */
+  timeout?: number;
+}
+
+/**
+ * Interface for a service that failed to dispose.
+ * 
+ * @interface IDisposalFailure
+ */
+export interface IDisposalFailure {
+  /**
+   * Human readable label of the service identifier.
+   */
+  identifier: string;
+
+  /**
+   * The error raised while disposing the service.
+   */
+  error: unknown;
+}
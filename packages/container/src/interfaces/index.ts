@@ -7,4 +7,16 @@ export * from './container.interface';
 export * from './contextual-binding.interface';
 export * from './contextual-binding-builder.interface';
 export * from './property-injection.interface';
-export * from './property-injection-resolver.interface';
\ No newline at end of file
+export * from './property-injection-resolver.interface';
+export * from './dependency-graph.interface';
+export * from './container-scope.interface';
+export * from './child-container-options.interface';
+export * from './container-snapshot.interface';
+export * from './injectable-options.interface';
+export * from './token.interface';
+export * from './method-injection.interface';
+export * from './method-injection-resolver.interface';
+export * from './resolution-hooks.interface';
+export * from './resolution-metrics.interface';
+export * from './disposal.interface';
+export * from './injection-decorator.interface';
\ No newline at end of file
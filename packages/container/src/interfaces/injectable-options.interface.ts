@@ -0,0 +1,34 @@
+/**
+ * Interface for the options accepted by the @Injectable decorator.
+ * Used by Container.scan() and Container.autoRegister() to bind classes automatically.
+ * 
+ * @interface IInjectableOptions
+ */
+export interface IInjectableOptions {
+  /**
+   * The binding scope. Defaults to transient.
+   */
+  scope?: 'singleton' | 'transient' | 'request' | 'container';
+
+  /**
+   * The service identifier to bind the class to. Defaults to the class itself.
+   */
+  token?: string | symbol;
+
+  /**
+   * Tags offered by the binding, matched against @Tagged injections.
+   * Several classes may share a token with different tags to form a multi-binding.
+   */
+  tags?: Record<string, unknown>;
+
+  /**
+   * Name offered by the binding, matched against @Named injections.
+   */
+  name?: string | number | symbol;
+
+  /**
+   * Priority used to order the class among other bindings of the same token.
+   * Higher priorities are resolved first by getAll(), tagged() and @InjectAll.
+   */
+  priority?: number;
+}
@@ -0,0 +1,9 @@
+/**
+ * Decorator for constructor parameters, properties, method parameters and accessors.
+ * A single call signature, as TypeScript cannot apply a union of decorator types.
+ */
+export type InjectionDecorator = (
+  target: object,
+  propertyKey?: string | symbol,
+  indexOrDescriptor?: number | PropertyDescriptor
+) => void;
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { IMethodInjection } from './method-injection.interface';
+import { IPropertyInjection } from './property-injection.interface';
+
+/**
+ * Interface for method and setter injection resolver.
+ * Handles the resolution of method parameters and setter injections.
+ * 
+ * @interface IMethodInjectionResolver
+ */
+export interface IMethodInjectionResolver {
+  /**
+   * Resolve the arguments of a method.
+   * 
+   * @param target - The target instance
+   * @param methodKey - The method to resolve arguments for
+   * @param container - The container to resolve from
+   * @param parameters - Explicit arguments that take precedence over injection
+   * @returns any[] - The method arguments
+   */
+  resolveArguments(target: any, methodKey: string | symbol, container: any, parameters?: any[]): any[];
+
+  /**
+   * Perform setter injections on a target instance.
+   * 
+   * @param target - The target instance
+   * @param container - The container to resolve from
+   * @returns void
+   */
+  resolveSetters(target: any, container: any): void;
+
+  /**
+   * Get method parameter injection metadata for a method.
+   * 
+   * @param target - The target class
+   * @param methodKey - The method name
+   * @returns IMethodInjection[]
+   */
+  getMethodInjections(target: any, methodKey: string | symbol): IMethodInjection[];
+
+  /**
+   * Get setter injection metadata for a target.
+   * 
+   * @param target - The target class
+   * @returns IPropertyInjection[]
+   */
+  getSetterInjections(target: any): IPropertyInjection[];
+}
@@ -0,0 +1,27 @@
+/**
+ * Interface for method parameter injection metadata.
+ * Stores information about method parameters resolved by Container.call().
+ * 
+ * @interface IMethodInjection
+ */
+export interface IMethodInjection {
+  /**
+   * The method the parameter belongs to.
+   */
+  methodKey: string | symbol;
+
+  /**
+   * The index of the parameter.
+   */
+  parameterIndex: number;
+
+  /**
+   * The service identifier to inject.
+   */
+  serviceIdentifier: string | symbol;
+
+  /**
+   * Whether the injection is optional.
+   */
+  optional?: boolean;
+}
@@ -12,9 +12,10 @@ export interface IPropertyInjectionResolver {
    * 
    * @param target - The target instance
    * @param container - The container to resolve from
+   * @param defer - Optional wrapper for resolutions deferred by lazy properties
    * @returns void
    */
-  resolveProperties(target: any, container: any): void;
+  resolveProperties(target: any, container: any, defer?: <T>(resolve: () => T) => T): void;
 
   /**
    * Get property injection metadata for a target.
@@ -13,7 +13,7 @@ export interface IPropertyInjection {
   /**
    * The service identifier to inject.
    */
-  serviceIdentifier: string | symbol;
+  serviceIdentifier: string | symbol | Function;
 
   /**
    * Whether the injection is optional.
@@ -30,6 +30,21 @@ export interface IPropertyInjection {
    */
   tagged?: Array<{ key: string | number | symbol; value: any }>;
 
+  /**
+   * Whether the service is resolved on first access instead of on activation.
+   */
+  lazy?: boolean;
+
+  /**
+   * Whether every binding of the service identifier is injected as an array.
+   */
+  all?: boolean;
+
+  /**
+   * Tag whose services are injected as an array, see Container.tag().
+   */
+  tag?: string | symbol;
+
   /**
    * Custom factory function for the injection.
    */
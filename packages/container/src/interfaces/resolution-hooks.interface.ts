@@ -0,0 +1,46 @@
+import { interfaces } from 'inversify';
+import type { IContainer } from './container.interface';
+
+/**
+ * Hook called before a service is resolved through get(), getAsync() or getAll().
+ */
+export type BeforeResolveHook = (identifier: interfaces.ServiceIdentifier, container: IContainer) => void;
+
+/**
+ * Hook called with the result of get(), getAsync() or getAll().
+ */
+export type AfterResolveHook<T = any> = (instance: T, identifier: interfaces.ServiceIdentifier, container: IContainer) => void;
+
+/**
+ * Hook called whenever an instance is created, including nested dependencies.
+ * May return a replacement for the instance.
+ */
+export type ActivationHook<T = any> = interfaces.BindingActivation<T>;
+
+/**
+ * Hook called when a singleton is released by unbind() or unbindAll().
+ */
+export type DeactivationHook<T = any> = interfaces.BindingDeactivation<T>;
+
+/**
+ * Decorator registered with Container.extend(), wrapping resolved instances.
+ */
+export type ServiceExtender<T = any> = (instance: T, container: IContainer) => T;
+
+/**
+ * Map of resolution hook stages to their hook types.
+ * 
+ * @interface IResolutionHookTypes
+ */
+export interface IResolutionHookTypes {
+  beforeResolve: BeforeResolveHook;
+  afterResolve: AfterResolveHook;
+  activation: ActivationHook;
+  deactivation: DeactivationHook;
+  extend: ServiceExtender;
+}
+
+/**
+ * Stage of the resolution pipeline a hook is attached to.
+ */
+export type ResolutionHookStage = keyof IResolutionHookTypes;
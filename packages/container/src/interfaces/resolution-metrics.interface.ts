@@ -0,0 +1,111 @@
+import { interfaces } from 'inversify';
+
+/**
+ * Kind of event recorded by the resolution metrics.
+ */
+export type ResolutionEventType = 'construct' | 'cache-hit' | 'lazy-load' | 'property-injection-failure' | 'error';
+
+/**
+ * Interface for a single resolution event.
+ * 
+ * @interface IResolutionEvent
+ */
+export interface IResolutionEvent {
+  /**
+   * The kind of event.
+   */
+  type: ResolutionEventType;
+
+  /**
+   * The service identifier the event is about.
+   */
+  identifier: interfaces.ServiceIdentifier;
+
+  /**
+   * Human readable label for the identifier.
+   */
+  label: string;
+
+  /**
+   * Duration in milliseconds, for construct and lazy-load events.
+   */
+  duration?: number;
+
+  /**
+   * When the event was recorded, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * The error, for property-injection-failure and error events.
+   */
+  error?: unknown;
+}
+
+/**
+ * Listener subscribed to the resolution event stream.
+ */
+export type ResolutionEventListener = (event: IResolutionEvent) => void;
+
+/**
+ * Interface for the aggregated metrics of one service.
+ * Construction times include the time spent resolving the service's dependencies.
+ * 
+ * @interface IServiceMetrics
+ */
+export interface IServiceMetrics {
+  /**
+   * Human readable label for the identifier.
+   */
+  identifier: string;
+
+  /**
+   * Number of times the service was resolved, including cache hits.
+   */
+  resolutions: number;
+
+  /**
+   * Number of instances created.
+   */
+  constructions: number;
+
+  /**
+   * Number of resolutions served from the singleton or scope cache.
+   */
+  cacheHits: number;
+
+  /**
+   * Cumulative construction time in milliseconds.
+   */
+  totalTime: number;
+
+  /**
+   * Average construction time in milliseconds.
+   */
+  averageTime: number;
+
+  /**
+   * Longest construction time in milliseconds.
+   */
+  maxTime: number;
+
+  /**
+   * Number of lazy loads.
+   */
+  lazyLoads: number;
+
+  /**
+   * Cumulative lazy load time in milliseconds.
+   */
+  lazyLoadTime: number;
+
+  /**
+   * Number of failed property or setter injections.
+   */
+  propertyInjectionFailures: number;
+
+  /**
+   * Number of failed resolutions.
+   */
+  errors: number;
+}
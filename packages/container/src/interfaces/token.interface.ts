@@ -0,0 +1,57 @@
+import type { interfaces } from 'inversify';
+import type { DecoratorRegistry } from '@tsvel/decorators';
+import type { IEventDispatcher } from '@tsvel/events';
+import type { ILogger } from '@tsvel/logger';
+import type { IMetadata } from '@tsvel/metadata';
+import type { IContainer } from './container.interface';
+
+/**
+ * Phantom key carrying the service type of a token.
+ * Exists only at the type level; tokens are plain symbols at runtime.
+ */
+export declare const TOKEN_TYPE: unique symbol;
+
+/**
+ * A service identifier that carries the type of the service it resolves to.
+ * Created with createToken().
+ * 
+ * @template T - The service type
+ */
+export type Token<T> = symbol & { readonly [TOKEN_TYPE]?: T };
+
+/**
+ * Any identifier accepted by typed container APIs.
+ * Typed tokens and classes infer the service type; strings and plain symbols trust the caller.
+ * 
+ * @template T - The service type
+ */
+export type ServiceIdentifier<T = unknown> = string | Token<T> | interfaces.Newable<T>;
+
+/**
+ * Service types of the framework injection tokens, keyed by token description.
+ * Packages the container cannot depend on, such as the application, augment this
+ * interface to give their INJECTION_TOKENS entries a service type.
+ * 
+ * @interface IInjectionTokenTypes
+ * @example
+ * declare module '@tsvel/container' {
+ *   interface IInjectionTokenTypes {
+ *     ICache: ICache;
+ *   }
+ * }
+ */
+export interface IInjectionTokenTypes {
+  Container: IContainer;
+  ILogger: ILogger;
+  IMetadata: IMetadata;
+  DecoratorRegistry: DecoratorRegistry;
+  IEventDispatcher: IEventDispatcher;
+}
+
+/**
+ * Service type registered for a token description, or any if none is registered,
+ * so tokens without a service type accept the type the caller names.
+ * 
+ * @template K - The token description
+ */
+export type InjectionTokenType<K extends string> = K extends keyof IInjectionTokenTypes ? IInjectionTokenTypes[K] : any;
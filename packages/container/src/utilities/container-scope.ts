@@ -0,0 +1,141 @@
+import type { Container } from '../container';
+import { IContainerScope } from '../interfaces/container-scope.interface';
+import { ASYNC_DISPOSE, disposeInstance } from './disposable';
+
+/**
+ * Disposable resolution scope created by Container.createScope().
+ * Services bound with the request scope resolve to one instance per scope.
+ * 
+ * @class ContainerScope
+ * @implements {IContainerScope}
+ */
+export class ContainerScope implements IContainerScope {
+  /**
+   * Instances created for this scope, keyed by binding id.
+   * Used as the inversify request scope for every resolution in this scope.
+   */
+  readonly instances = new Map<unknown, unknown>();
+
+  /**
+   * Indicates whether the scope has been disposed.
+   */
+  private disposed = false;
+
+  /**
+   * Creates a new container scope.
+   * 
+   * @param container - The container the scope resolves from
+   */
+  constructor(private readonly container: Container) {}
+
+  /**
+   * Resolve a service within this scope.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns T - The resolved service instance
+   */
+  get<T>(identifier: string | symbol): T {
+    this.assertNotDisposed(identifier);
+    return this.container.withScope(this, () => this.container.get<T>(identifier));
+  }
+
+  /**
+   * Resolve a service within this scope, awaiting any asynchronous factories.
+   * 
+   * @template T
+   * @param identifier - The service identifier
+   * @returns Promise<T> - The resolved service instance
+   */
+  getAsync<T>(identifier: string | symbol): Promise<T> {
+    this.assertNotDisposed(identifier);
+    return this.container.withScope(this, () => this.container.getAsync<T>(identifier));
+  }
+
+  /**
+   * Get the instances created for this scope, in creation order.
+   * 
+   * @returns unknown[] - The scoped instances
+   */
+  getInstances(): unknown[] {
+    return Array.from(this.instances.values());
+  }
+
+  /**
+   * Check if this scope has been disposed.
+   * 
+   * @returns boolean - True if the scope has been disposed
+   */
+  isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /**
+   * Dispose the scope and every scoped instance it created.
+   * Instances are disposed in reverse creation order; failures are collected
+   * and reported once every instance has been given a chance to clean up.
+   * 
+   * @returns Promise<void>
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+
+    this.disposed = true;
+
+    const instances = this.getInstances().reverse();
+    const errors: unknown[] = [];
+    this.instances.clear();
+
+    for (const instance of instances) {
+      try {
+        await disposeInstance(await instance);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(
+        `Failed to dispose ${errors.length} scoped service(s): ${errors
+          .map(error => (error instanceof Error ? error.message : String(error)))
+          .join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Dispose the scope when used with `await using`.
+   * 
+   * @returns Promise<void>
+   */
+  [ASYNC_DISPOSE](): Promise<void> {
+    return this.dispose();
+  }
+
+  /**
+   * Throw if the scope has already been disposed.
+   * 
+   * @private
+   * @param identifier - The service identifier being resolved
+   * @returns void
+   */
+  private assertNotDisposed(identifier: string | symbol): void {
+    if (this.disposed) {
+      throw new Error(`Cannot resolve service '${String(identifier)}' from a disposed scope`);
+    }
+  }
+
+  /**
+   * Create a new container scope instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param container - The container the scope resolves from
+   * @returns ContainerScope - A new container scope
+   */
+  static make(container: Container): ContainerScope {
+    return new ContainerScope(container);
+  }
+}
@@ -1,4 +1,6 @@
-import { IContextualBinding, IContextualBindingBuilder, IContextualBindingNeedsBuilder } from '../interfaces/contextual-binding.interface';
+import { IContextualBinding } from '../interfaces/contextual-binding.interface';
+import { IContextualBindingBuilder, IContextualBindingNeedsBuilder } from '../interfaces/contextual-binding-builder.interface';
+import { ServiceIdentifier } from '../interfaces/token.interface';
 
 /**
  * Manager for contextual bindings in the container.
@@ -81,12 +83,13 @@ export class ContextualBindingManager {
 
   /**
    * Resolve a contextual binding for a given context and service.
+   * Factory bindings receive the requesting context as their only argument.
    * 
    * @param context - The context requesting the service
    * @param serviceIdentifier - The service identifier
    * @returns any | null - The resolved service or null if no binding found
    */
-  resolveContextual(context: any, serviceIdentifier: string | symbol): any | null {
+  resolveContextual(context: any, serviceIdentifier: string | symbol | Function): any | null {
     const cacheKey = this.getCacheKey(context, serviceIdentifier);
     
     // Check cache first
@@ -107,7 +110,7 @@ export class ContextualBindingManager {
 
         if (typeof binding.give === 'function') {
           try {
-            resolvedService = binding.give();
+            resolvedService = binding.give(context);
           } catch (error) {
             throw new Error(`Failed to resolve contextual binding for ${contextKey}: ${error instanceof Error ? error.message : String(error)}`);
           }
@@ -134,7 +137,7 @@ export class ContextualBindingManager {
    * @param serviceIdentifier - The service identifier
    * @returns boolean
    */
-  hasContextualBinding(context: any, serviceIdentifier: string | symbol): boolean {
+  hasContextualBinding(context: any, serviceIdentifier: string | symbol | Function): boolean {
     const contextKey = this.getContextKey(context);
     const bindings = this.bindings.get(contextKey) || [];
     
@@ -154,6 +157,21 @@ export class ContextualBindingManager {
     return [...(this.bindings.get(contextKey) || [])]; // Return copy to prevent mutation
   }
 
+  /**
+   * Get every service identifier needed by a contextual binding.
+   * 
+   * @returns Array<string | symbol | Function> - The distinct service identifiers
+   */
+  getServiceIdentifiers(): Array<string | symbol | Function> {
+    const identifiers = new Set<string | symbol | Function>();
+
+    for (const bindings of this.bindings.values()) {
+      bindings.forEach(binding => identifiers.add(binding.needs));
+    }
+
+    return Array.from(identifiers);
+  }
+
   /**
    * Remove a specific contextual binding.
    * 
@@ -161,7 +179,7 @@ export class ContextualBindingManager {
    * @param serviceIdentifier - The service identifier
    * @returns boolean - True if binding was removed
    */
-  removeBinding(context: any, serviceIdentifier: string | symbol): boolean {
+  removeBinding(context: any, serviceIdentifier: string | symbol | Function): boolean {
     const contextKey = this.getContextKey(context);
     const bindings = this.bindings.get(contextKey);
     
@@ -198,6 +216,31 @@ export class ContextualBindingManager {
     return { ...this.stats };
   }
 
+  /**
+   * Create a copy of this manager with the same bindings and statistics.
+   * 
+   * @returns ContextualBindingManager - The copy
+   */
+  clone(): ContextualBindingManager {
+    const copy = new ContextualBindingManager();
+    copy.restore(this);
+    return copy;
+  }
+
+  /**
+   * Replace the bindings and statistics of this manager with those of another.
+   * 
+   * @param source - The manager to copy from
+   * @returns void
+   */
+  restore(source: ContextualBindingManager): void {
+    this.bindings = new Map(
+      Array.from(source.bindings.entries(), ([contextKey, bindings]) => [contextKey, [...bindings]])
+    );
+    this.stats = { ...source.stats };
+    this.clearResolutionCache();
+  }
+
   /**
    * Clear all contextual bindings.
    * 
@@ -232,11 +275,9 @@ export class ContextualBindingManager {
    * @param serviceIdentifier - The service identifier
    * @returns string
    */
-  private getCacheKey(context: any, serviceIdentifier: string | symbol): string {
+  private getCacheKey(context: any, serviceIdentifier: string | symbol | Function): string {
     const contextKey = this.getContextKey(context);
-    const serviceKey = typeof serviceIdentifier === 'symbol' 
-      ? serviceIdentifier.toString() 
-      : String(serviceIdentifier);
+    const serviceKey = this.getContextKey(serviceIdentifier);
     return `${contextKey}:${serviceKey}`;
   }
 
@@ -271,7 +312,7 @@ export class ContextualBindingManager {
    * @param requestedService - The requested service
    * @returns boolean
    */
-  private matchesService(bindingService: string | symbol, requestedService: string | symbol): boolean {
+  private matchesService(bindingService: string | symbol | Function, requestedService: string | symbol | Function): boolean {
     return bindingService === requestedService;
   }
 
@@ -346,11 +387,12 @@ class ContextualBindingBuilder implements IContextualBindingBuilder {
   /**
    * Specify what service is needed in this context.
    * 
+   * @template T
    * @param identifier - The service identifier
-   * @returns IContextualBindingNeedsBuilder
+   * @returns IContextualBindingNeedsBuilder<T>
    */
-  needs(identifier: string | symbol): IContextualBindingNeedsBuilder {
-    return new ContextualBindingNeedsBuilder(this.manager, this.when, identifier);
+  needs<T = any>(identifier: ServiceIdentifier<T>): IContextualBindingNeedsBuilder<T> {
+    return new ContextualBindingNeedsBuilder<T>(this.manager, this.when, identifier);
   }
 }
 
@@ -359,9 +401,10 @@ class ContextualBindingBuilder implements IContextualBindingBuilder {
  * Continues the fluent API for contextual binding configuration.
  * 
  * @class ContextualBindingNeedsBuilder
+ * @template T - The service type
  * @implements {IContextualBindingNeedsBuilder}
  */
-class ContextualBindingNeedsBuilder implements IContextualBindingNeedsBuilder {
+class ContextualBindingNeedsBuilder<T = any> implements IContextualBindingNeedsBuilder<T> {
   /**
    * Creates a new contextual binding needs builder.
    * 
@@ -372,7 +415,7 @@ class ContextualBindingNeedsBuilder implements IContextualBindingNeedsBuilder {
   constructor(
     private manager: ContextualBindingManager,
     private when: string | symbol | Function,
-    private needs: string | symbol
+    private needs: string | symbol | Function
   ) {}
 
   /**
@@ -381,7 +424,7 @@ class ContextualBindingNeedsBuilder implements IContextualBindingNeedsBuilder {
    * @param implementation - The implementation to provide
    * @returns void
    */
-  give(implementation: any | (() => any)): void {
+  give(implementation: T | ((context: any) => T)): void {
     this.manager.registerBinding({
       when: this.when,
       needs: this.needs,
@@ -397,7 +440,7 @@ class ContextualBindingNeedsBuilder implements IContextualBindingNeedsBuilder {
    * @param scope - The binding scope
    * @returns void
    */
-  giveScoped(implementation: any | (() => any), scope: 'singleton' | 'transient' | 'request'): void {
+  giveScoped(implementation: T | ((context: any) => T), scope: 'singleton' | 'transient' | 'request'): void {
     this.manager.registerBinding({
       when: this.when,
       needs: this.needs,
@@ -0,0 +1,267 @@
+import { getServiceIdentifierAsString } from 'inversify';
+import { IDependencyNode, IDependencyEdge, DependencyGraphFormat } from '../interfaces/dependency-graph.interface';
+
+/**
+ * Directed graph of services and the dependencies they require.
+ * Supports cycle detection and export to DOT, Mermaid and JSON.
+ * 
+ * @class DependencyGraph
+ */
+export class DependencyGraph {
+  /**
+   * Map of nodes keyed by service identifier.
+   */
+  private nodes = new Map<string | symbol | Function, IDependencyNode>();
+
+  /**
+   * List of edges between nodes.
+   */
+  private edges: IDependencyEdge[] = [];
+
+  /**
+   * Add a node to the graph, merging with an existing node for the same identifier.
+   * 
+   * @param node - The node to add
+   * @returns this - The graph for method chaining
+   */
+  addNode(node: Omit<IDependencyNode, 'label'> & { label?: string }): this {
+    const existing = this.nodes.get(node.identifier);
+    this.nodes.set(node.identifier, {
+      ...existing,
+      ...node,
+      label: node.label || existing?.label || DependencyGraph.labelFor(node.identifier),
+      bound: (existing?.bound ?? false) || node.bound,
+    });
+    return this;
+  }
+
+  /**
+   * Add an edge to the graph.
+   * 
+   * @param edge - The edge to add
+   * @returns this - The graph for method chaining
+   */
+  addEdge(edge: IDependencyEdge): this {
+    this.edges.push(edge);
+    return this;
+  }
+
+  /**
+   * Get all nodes in the graph.
+   * 
+   * @returns IDependencyNode[] - The graph nodes
+   */
+  getNodes(): IDependencyNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Get all edges in the graph.
+   * 
+   * @returns IDependencyEdge[] - The graph edges
+   */
+  getEdges(): IDependencyEdge[] {
+    return [...this.edges];
+  }
+
+  /**
+   * Get the node for an identifier.
+   * 
+   * @param identifier - The service identifier
+   * @returns IDependencyNode | undefined - The node, if present
+   */
+  getNode(identifier: string | symbol | Function): IDependencyNode | undefined {
+    return this.nodes.get(identifier);
+  }
+
+  /**
+   * Get the direct dependencies of a service.
+   * 
+   * @param identifier - The service identifier
+   * @returns IDependencyEdge[] - Edges leaving the service
+   */
+  getDependencies(identifier: string | symbol | Function): IDependencyEdge[] {
+    return this.edges.filter(edge => edge.from === identifier);
+  }
+
+  /**
+   * Get the services that directly depend on a service.
+   * 
+   * @param identifier - The service identifier
+   * @returns IDependencyEdge[] - Edges entering the service
+   */
+  getDependents(identifier: string | symbol | Function): IDependencyEdge[] {
+    return this.edges.filter(edge => edge.to === identifier);
+  }
+
+  /**
+   * Find all dependency cycles using a depth-first search.
+   * Each cycle is returned as the chain of identifiers, starting and ending with the same one.
+   * Lazy dependencies are skipped since they are only resolved after construction.
+   * 
+   * @returns Array<Array<string | symbol | Function>> - The detected cycles
+   */
+  findCycles(): Array<Array<string | symbol | Function>> {
+    const cycles: Array<Array<string | symbol | Function>> = [];
+    const visited = new Set<string | symbol | Function>();
+    const path: Array<string | symbol | Function> = [];
+    const onPath = new Set<string | symbol | Function>();
+
+    const visit = (identifier: string | symbol | Function): void => {
+      visited.add(identifier);
+      onPath.add(identifier);
+      path.push(identifier);
+
+      for (const edge of this.getDependencies(identifier)) {
+        if (edge.lazy) {
+          continue;
+        }
+
+        if (onPath.has(edge.to)) {
+          cycles.push([...path.slice(path.indexOf(edge.to)), edge.to]);
+        } else if (!visited.has(edge.to)) {
+          visit(edge.to);
+        }
+      }
+
+      path.pop();
+      onPath.delete(identifier);
+    };
+
+    for (const identifier of this.nodes.keys()) {
+      if (!visited.has(identifier)) {
+        visit(identifier);
+      }
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Export the graph in the requested format.
+   * 
+   * @param format - The export format
+   * @returns string - The serialized graph
+   */
+  export(format: DependencyGraphFormat): string {
+    switch (format) {
+      case 'dot':
+        return this.toDot();
+      case 'mermaid':
+        return this.toMermaid();
+      case 'json':
+      default:
+        return JSON.stringify(this.toJSON(), null, 2);
+    }
+  }
+
+  /**
+   * Serialize the graph to Graphviz DOT.
+   * Property dependencies are drawn dashed and missing services in red.
+   * 
+   * @returns string - The DOT source
+   */
+  toDot(): string {
+    const lines = ['digraph Container {', '  rankdir=LR;'];
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+
+    for (const node of this.nodes.values()) {
+      const attributes = node.bound ? '' : ' [color=red]';
+      lines.push(`  ${quote(node.label)}${attributes};`);
+    }
+
+    for (const edge of this.edges) {
+      const attributes: string[] = [];
+      if (edge.kind === 'property') {
+        attributes.push('style=dashed');
+      }
+      if (edge.optional) {
+        attributes.push('label="optional"');
+      }
+      const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+      lines.push(`  ${quote(this.labelOf(edge.from))} -> ${quote(this.labelOf(edge.to))}${suffix};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Serialize the graph to a Mermaid flowchart.
+   * Property dependencies are drawn as dotted links.
+   * 
+   * @returns string - The Mermaid source
+   */
+  toMermaid(): string {
+    const lines = ['graph TD'];
+    const ids = new Map<string | symbol | Function, string>();
+
+    Array.from(this.nodes.keys()).forEach((identifier, index) => {
+      ids.set(identifier, `n${index}`);
+    });
+
+    for (const [identifier, id] of ids) {
+      lines.push(`  ${id}["${this.labelOf(identifier).replace(/"/g, '#quot;')}"]`);
+    }
+
+    for (const edge of this.edges) {
+      const arrow = edge.kind === 'property' ? '-.->' : '-->';
+      lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Serialize the graph to a plain JSON-compatible object.
+   * 
+   * @returns object - Nodes and edges with identifiers replaced by labels
+   */
+  toJSON(): {
+    nodes: Array<Omit<IDependencyNode, 'identifier'>>;
+    edges: Array<Omit<IDependencyEdge, 'from' | 'to' | 'propertyKey'> & { from: string; to: string; propertyKey?: string }>;
+  } {
+    return {
+      nodes: this.getNodes().map(({ identifier, ...node }) => node),
+      edges: this.edges.map(edge => ({
+        ...edge,
+        from: this.labelOf(edge.from),
+        to: this.labelOf(edge.to),
+        propertyKey: edge.propertyKey !== undefined ? String(edge.propertyKey) : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Get the label of a node, falling back to the identifier itself.
+   * 
+   * @private
+   * @param identifier - The service identifier
+   * @returns string - The label
+   */
+  private labelOf(identifier: string | symbol | Function): string {
+    return this.nodes.get(identifier)?.label || DependencyGraph.labelFor(identifier);
+  }
+
+  /**
+   * Get a human readable label for a service identifier.
+   * 
+   * @static
+   * @param identifier - The service identifier
+   * @returns string - The label
+   */
+  static labelFor(identifier: string | symbol | Function): string {
+    return getServiceIdentifierAsString(identifier as any);
+  }
+
+  /**
+   * Create a new dependency graph instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @returns DependencyGraph - A new dependency graph
+   */
+  static make(): DependencyGraph {
+    return new DependencyGraph();
+  }
+}
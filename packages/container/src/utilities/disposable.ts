@@ -0,0 +1,73 @@
+/**
+ * Symbol used by explicit resource management for async disposal.
+ * Falls back to the registered symbol on runtimes without native support.
+ */
+export const ASYNC_DISPOSE: symbol = (Symbol as any).asyncDispose ?? Symbol.for('Symbol.asyncDispose');
+
+/**
+ * Symbol used by explicit resource management for sync disposal.
+ * Falls back to the registered symbol on runtimes without native support.
+ */
+export const DISPOSE: symbol = (Symbol as any).dispose ?? Symbol.for('Symbol.dispose');
+
+/**
+ * Check if an instance exposes a disposal method.
+ * 
+ * @param instance - The instance to check
+ * @returns boolean - True if the instance can be disposed
+ */
+export function isDisposable(instance: any): boolean {
+  return (
+    !!instance &&
+    typeof instance === 'object' &&
+    (typeof instance[ASYNC_DISPOSE] === 'function' ||
+      typeof instance[DISPOSE] === 'function' ||
+      typeof instance.dispose === 'function' ||
+      typeof instance.close === 'function')
+  );
+}
+
+/**
+ * Dispose an instance using the first disposal method it exposes.
+ * Prefers Symbol.asyncDispose, then Symbol.dispose, then dispose(), then close().
+ * 
+ * @param instance - The instance to dispose
+ * @returns Promise<void>
+ */
+export async function disposeInstance(instance: any): Promise<void> {
+  if (!isDisposable(instance)) {
+    return;
+  }
+
+  if (typeof instance[ASYNC_DISPOSE] === 'function') {
+    await instance[ASYNC_DISPOSE]();
+  } else if (typeof instance[DISPOSE] === 'function') {
+    await instance[DISPOSE]();
+  } else if (typeof instance.dispose === 'function') {
+    await instance.dispose();
+  } else {
+    await instance.close();
+  }
+}
+
+/**
+ * Dispose an instance, failing if it does not finish within the timeout.
+ * 
+ * @param instance - The instance to dispose
+ * @param timeout - Maximum time to wait in milliseconds
+ * @returns Promise<void>
+ */
+export async function disposeInstanceWithin(instance: any, timeout: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      disposeInstance(instance),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Disposal timed out after ${timeout}ms`)), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -4,4 +4,11 @@
  */
 
 export * from './property-injection-resolver';
-export * from './contextual-binding-manager';
\ No newline at end of file
+export * from './method-injection-resolver';
+export * from './contextual-binding-manager';
+export * from './dependency-graph';
+export * from './container-scope';
+export * from './disposable';
+export * from './token';
+export * from './resolution-hooks';
+export * from './resolution-metrics';
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { IMethodInjectionResolver } from '../interfaces/method-injection-resolver.interface';
+import { IMethodInjection } from '../interfaces/method-injection.interface';
+import { IPropertyInjection } from '../interfaces/property-injection.interface';
+import { METADATA_KEYS } from '../constants/metadata-keys.constant';
+
+/**
+ * Utility class for resolving method parameter and setter injections.
+ * Backs Container.call() and setter injection after activation.
+ * 
+ * @class MethodInjectionResolver
+ * @implements {IMethodInjectionResolver}
+ */
+export class MethodInjectionResolver implements IMethodInjectionResolver {
+  /**
+   * Instances whose setters have already been injected.
+   */
+  private injectedInstances = new WeakSet<object>();
+
+  /**
+   * Resolve the arguments of a method.
+   * Parameters marked with @Inject are resolved from the container unless an
+   * explicit argument is given at the same position.
+   * 
+   * @param target - The target instance
+   * @param methodKey - The method to resolve arguments for
+   * @param container - The container to resolve from
+   * @param parameters - Explicit arguments that take precedence over injection
+   * @returns any[] - The method arguments
+   * @throws Error if the method does not exist or a required parameter cannot be resolved
+   */
+  resolveArguments(target: any, methodKey: string | symbol, container: any, parameters: any[] = []): any[] {
+    const className = target?.constructor?.name || 'Anonymous';
+
+    if (!target || typeof target[methodKey] !== 'function') {
+      throw new Error(`Method '${String(methodKey)}' does not exist on '${className}'`);
+    }
+
+    const args = [...parameters];
+
+    for (const injection of this.getMethodInjections(target.constructor, methodKey)) {
+      if (args[injection.parameterIndex] !== undefined) {
+        continue;
+      }
+
+      try {
+        args[injection.parameterIndex] = container.get(injection.serviceIdentifier);
+      } catch (error) {
+        if (!injection.optional) {
+          throw new Error(
+            `Failed to inject parameter #${injection.parameterIndex} of '${className}.${String(methodKey)}' with service '${String(injection.serviceIdentifier)}': ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        args[injection.parameterIndex] = undefined;
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Perform setter injections on a target instance.
+   * Each instance is injected once, so shared instances are not re-injected.
+   * 
+   * @param target - The target instance
+   * @param container - The container to resolve from
+   * @returns void
+   */
+  resolveSetters(target: any, container: any): void {
+    if (!target || typeof target !== 'object' || this.injectedInstances.has(target)) {
+      return;
+    }
+
+    const setterInjections = this.getSetterInjections(target.constructor);
+    if (setterInjections.length === 0) {
+      return;
+    }
+
+    this.injectedInstances.add(target);
+
+    for (const injection of setterInjections) {
+      let service: any;
+
+      try {
+        service = container.get(injection.serviceIdentifier);
+      } catch (error) {
+        if (!injection.optional) {
+          throw new Error(
+            `Failed to inject setter '${String(injection.propertyKey)}' with service '${String(injection.serviceIdentifier)}' in class '${target.constructor.name}': ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        continue;
+      }
+
+      target[injection.propertyKey] = service;
+
+      // Log successful injection in development
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Injected ${String(injection.serviceIdentifier)} into setter ${target.constructor.name}.${String(injection.propertyKey)}`);
+      }
+    }
+  }
+
+  /**
+   * Get method parameter injection metadata for a method.
+   * The closest class in the prototype chain that declares the method's injections wins.
+   * 
+   * @param target - The target class
+   * @param methodKey - The method name
+   * @returns IMethodInjection[]
+   */
+  getMethodInjections(target: any, methodKey: string | symbol): IMethodInjection[] {
+    let currentTarget = target;
+    while (currentTarget && currentTarget !== Object.prototype) {
+      const methodMetadata = Reflect.getOwnMetadata(METADATA_KEYS.INJECT_METHOD, currentTarget);
+      if (methodMetadata && methodMetadata[methodKey]) {
+        return [...methodMetadata[methodKey]];
+      }
+
+      currentTarget = Object.getPrototypeOf(currentTarget);
+    }
+
+    return [];
+  }
+
+  /**
+   * Get setter injection metadata for a target.
+   * 
+   * @param target - The target class
+   * @returns IPropertyInjection[]
+   */
+  getSetterInjections(target: any): IPropertyInjection[] {
+    const injections: IPropertyInjection[] = [];
+
+    let currentTarget = target;
+    while (currentTarget && currentTarget !== Object.prototype) {
+      const setterMetadata = Reflect.getOwnMetadata(METADATA_KEYS.INJECT_SETTER, currentTarget) || {};
+
+      for (const propertyKey of Reflect.ownKeys(setterMetadata)) {
+        // Avoid duplicate injections from inheritance
+        if (!injections.some(inj => inj.propertyKey === propertyKey)) {
+          injections.push({
+            propertyKey,
+            ...setterMetadata[propertyKey],
+          });
+        }
+      }
+
+      currentTarget = Object.getPrototypeOf(currentTarget);
+    }
+
+    return injections;
+  }
+
+  /**
+   * Create a new method injection resolver instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @returns MethodInjectionResolver
+   */
+  static make(): MethodInjectionResolver {
+    return new MethodInjectionResolver();
+  }
+}
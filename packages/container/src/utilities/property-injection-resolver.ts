@@ -17,12 +17,14 @@ export class PropertyInjectionResolver implements IPropertyInjectionResolver {
   /**
    * Resolve property injections for a target instance.
    * Injects dependencies into properties marked with @Inject decorator.
+   * Lazy properties get a getter that resolves the dependency on first access.
    * 
    * @param target - The target instance
    * @param container - The container to resolve from
+   * @param defer - Optional wrapper for resolutions deferred by lazy properties
    * @returns void
    */
-  resolveProperties(target: any, container: any): void {
+  resolveProperties(target: any, container: any, defer: <T>(resolve: () => T) => T = (resolve) => resolve()): void {
     if (!target || typeof target !== 'object') {
       return;
     }
@@ -30,29 +32,46 @@ export class PropertyInjectionResolver implements IPropertyInjectionResolver {
     const propertyInjections = this.getPropertyInjections(target.constructor);
 
     for (const injection of propertyInjections) {
-      try {
-        let service: any;
-
-        // Handle custom factory
-        if (injection.factory) {
-          service = injection.factory();
-        } else {
-          // Handle named injections
-          if (injection.named !== undefined) {
-            service = container.getNamed(injection.serviceIdentifier, injection.named);
-          }
-          // Handle tagged injections
-          else if (injection.tagged && injection.tagged.length > 0) {
-            const tag = injection.tagged[0]; // Use first tag for simplicity
-            service = container.getTagged(injection.serviceIdentifier, tag.key, tag.value);
-          }
-          // Standard resolution
-          else {
-            service = container.get(injection.serviceIdentifier);
-          }
-        }
+      if (injection.lazy) {
+        this.defineLazyProperty(target, injection, container, defer);
+        continue;
+      }
+
+      const service = this.resolveInjection(target, injection, container);
+
+      // Inject the service into the property
+      Object.defineProperty(target, injection.propertyKey, {
+        value: service,
+        writable: false,
+        enumerable: true,
+        configurable: false,
+      });
+    }
+  }
+
+  /**
+   * Install a getter that resolves a lazy property on first access.
+   * The resolved service then replaces the getter; failed resolutions are retried on the next access.
+   * 
+   * @private
+   * @param target - The target instance
+   * @param injection - The injection metadata
+   * @param container - The container to resolve from
+   * @param defer - Wrapper for the deferred resolution
+   * @returns void
+   */
+  private defineLazyProperty(
+    target: any,
+    injection: IPropertyInjection,
+    container: any,
+    defer: <T>(resolve: () => T) => T
+  ): void {
+    Object.defineProperty(target, injection.propertyKey, {
+      enumerable: true,
+      configurable: true,
+      get: () => {
+        const service = defer(() => this.resolveInjection(target, injection, container));
 
-        // Inject the service into the property
         Object.defineProperty(target, injection.propertyKey, {
           value: service,
           writable: false,
@@ -60,30 +79,73 @@ export class PropertyInjectionResolver implements IPropertyInjectionResolver {
           configurable: false,
         });
 
-        // Log successful injection in development
-        if (process.env.NODE_ENV === 'development') {
-          console.debug(`Injected ${String(injection.serviceIdentifier)} into ${target.constructor.name}.${String(injection.propertyKey)}`);
+        return service;
+      },
+    });
+  }
+
+  /**
+   * Resolve the service for a single property injection.
+   * Optional injections resolve to undefined when the service is unavailable.
+   * 
+   * @private
+   * @param target - The target instance
+   * @param injection - The injection metadata
+   * @param container - The container to resolve from
+   * @returns any - The service to inject
+   * @throws Error if a required service cannot be resolved
+   */
+  private resolveInjection(target: any, injection: IPropertyInjection, container: any): any {
+    try {
+      let service: any;
+
+      // Handle custom factory
+      if (injection.factory) {
+        service = injection.factory();
+      } else {
+        // Handle tagged collections
+        if (injection.tag !== undefined) {
+          service = container.tagged(injection.tag);
         }
-      } catch (error) {
-        if (!injection.optional) {
-          throw new Error(
-            `Failed to inject property '${String(injection.propertyKey)}' with service '${String(injection.serviceIdentifier)}' in class '${target.constructor.name}': ${error instanceof Error ? error.message : String(error)}`
-          );
+        // Handle multi-binding collections
+        else if (injection.all) {
+          service = container.isBound(injection.serviceIdentifier) ? container.getAll(injection.serviceIdentifier) : [];
         }
-        
-        // For optional injections, set to undefined
-        Object.defineProperty(target, injection.propertyKey, {
-          value: undefined,
-          writable: false,
-          enumerable: true,
-          configurable: false,
-        });
-
-        // Log optional injection failure in development
-        if (process.env.NODE_ENV === 'development') {
-          console.debug(`Optional injection failed for ${target.constructor.name}.${String(injection.propertyKey)}: ${error instanceof Error ? error.message : String(error)}`);
+        // Handle named injections
+        else if (injection.named !== undefined) {
+          service = container.getNamed(injection.serviceIdentifier, injection.named);
+        }
+        // Handle tagged injections
+        else if (injection.tagged && injection.tagged.length > 0) {
+          const tag = injection.tagged[0]; // Use first tag for simplicity
+          service = container.getTagged(injection.serviceIdentifier, tag.key, tag.value);
+        }
+        // Standard resolution
+        else {
+          service = container.get(injection.serviceIdentifier);
         }
       }
+
+      // Log successful injection in development
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Injected ${String(injection.serviceIdentifier)} into ${target.constructor.name}.${String(injection.propertyKey)}`);
+      }
+
+      return service;
+    } catch (error) {
+      if (!injection.optional) {
+        throw new Error(
+          `Failed to inject property '${String(injection.propertyKey)}' with service '${String(injection.serviceIdentifier)}' in class '${target.constructor.name}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      // Log optional injection failure in development
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(`Optional injection failed for ${target.constructor.name}.${String(injection.propertyKey)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      // For optional injections, inject undefined
+      return undefined;
     }
   }
 
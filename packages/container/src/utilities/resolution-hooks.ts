@@ -0,0 +1,90 @@
+import { interfaces } from 'inversify';
+import { IResolutionHookTypes, ResolutionHookStage } from '../interfaces/resolution-hooks.interface';
+
+/**
+ * Registry of resolution hooks, global and per service identifier.
+ * Backs Container.beforeResolve(), afterResolve(), onActivation(), onDeactivation() and extend().
+ * 
+ * @class ResolutionHooks
+ */
+export class ResolutionHooks {
+  /**
+   * Hooks that apply to every service, by stage.
+   */
+  private globalHooks = new Map<ResolutionHookStage, any[]>();
+
+  /**
+   * Hooks that apply to one service identifier, by stage.
+   */
+  private identifierHooks = new Map<ResolutionHookStage, Map<interfaces.ServiceIdentifier, any[]>>();
+
+  /**
+   * Add a hook, optionally limited to one service identifier.
+   * 
+   * @template K
+   * @param stage - The pipeline stage
+   * @param hook - The hook to add
+   * @param identifier - Optional service identifier the hook applies to
+   * @returns void
+   */
+  add<K extends ResolutionHookStage>(stage: K, hook: IResolutionHookTypes[K], identifier?: interfaces.ServiceIdentifier): void {
+    if (identifier === undefined) {
+      this.globalHooks.set(stage, [...(this.globalHooks.get(stage) || []), hook]);
+      return;
+    }
+
+    const hooks = this.identifierHooks.get(stage) || new Map<interfaces.ServiceIdentifier, any[]>();
+    hooks.set(identifier, [...(hooks.get(identifier) || []), hook]);
+    this.identifierHooks.set(stage, hooks);
+  }
+
+  /**
+   * Get the hooks that apply to a service, global hooks first.
+   * 
+   * @template K
+   * @param stage - The pipeline stage
+   * @param identifier - The service identifier
+   * @returns IResolutionHookTypes[K][] - The hooks in registration order
+   */
+  get<K extends ResolutionHookStage>(stage: K, identifier: interfaces.ServiceIdentifier): IResolutionHookTypes[K][] {
+    return [
+      ...(this.globalHooks.get(stage) || []),
+      ...(this.identifierHooks.get(stage)?.get(identifier) || []),
+    ];
+  }
+
+  /**
+   * Check if any hook is registered for a stage.
+   * 
+   * @param stage - The pipeline stage
+   * @returns boolean - True if at least one hook is registered
+   */
+  has(stage: ResolutionHookStage): boolean {
+    return (this.globalHooks.get(stage)?.length ?? 0) > 0 || (this.identifierHooks.get(stage)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Create a copy of this registry.
+   * 
+   * @returns ResolutionHooks - The copy
+   */
+  clone(): ResolutionHooks {
+    const copy = new ResolutionHooks();
+    this.globalHooks.forEach((hooks, stage) => copy.globalHooks.set(stage, [...hooks]));
+    this.identifierHooks.forEach((hooks, stage) => {
+      copy.identifierHooks.set(stage, new Map(Array.from(hooks.entries(), ([identifier, list]) => [identifier, [...list]])));
+    });
+    return copy;
+  }
+
+  /**
+   * Create a new resolution hooks registry.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @returns ResolutionHooks - A new registry
+   */
+  static make(): ResolutionHooks {
+    return new ResolutionHooks();
+  }
+}
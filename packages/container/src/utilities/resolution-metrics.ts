@@ -0,0 +1,202 @@
+import { interfaces } from 'inversify';
+import {
+  IResolutionEvent,
+  IServiceMetrics,
+  ResolutionEventListener,
+} from '../interfaces/resolution-metrics.interface';
+import { DependencyGraph } from './dependency-graph';
+
+/**
+ * Per-service resolution metrics with an event stream.
+ * Recording is disabled until enable() is called, so containers that do not
+ * trace pay nothing.
+ * 
+ * @class ResolutionMetrics
+ */
+export class ResolutionMetrics {
+  /**
+   * Aggregated metrics keyed by service identifier.
+   */
+  private services = new Map<interfaces.ServiceIdentifier, IServiceMetrics>();
+
+  /**
+   * Listeners subscribed to the event stream.
+   */
+  private listeners = new Set<ResolutionEventListener>();
+
+  /**
+   * Indicates whether events are recorded.
+   */
+  private enabled = false;
+
+  /**
+   * Enable or disable recording.
+   * 
+   * @param enabled - Whether events should be recorded
+   * @returns void
+   */
+  enable(enabled: boolean = true): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Check if events are recorded.
+   * 
+   * @returns boolean - True if recording is enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Record an event, update the service's metrics and notify listeners.
+   * 
+   * @param event - The event without label and timestamp
+   * @returns void
+   */
+  record(event: Omit<IResolutionEvent, 'label' | 'timestamp'>): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const label = DependencyGraph.labelFor(event.identifier as string | symbol | Function);
+    const metrics = this.services.get(event.identifier) || ResolutionMetrics.emptyMetrics(label);
+    const duration = event.duration ?? 0;
+
+    switch (event.type) {
+      case 'construct':
+        metrics.resolutions++;
+        metrics.constructions++;
+        metrics.totalTime += duration;
+        metrics.maxTime = Math.max(metrics.maxTime, duration);
+        metrics.averageTime = metrics.totalTime / metrics.constructions;
+        break;
+      case 'cache-hit':
+        metrics.resolutions++;
+        metrics.cacheHits++;
+        break;
+      case 'lazy-load':
+        metrics.lazyLoads++;
+        metrics.lazyLoadTime += duration;
+        break;
+      case 'property-injection-failure':
+        metrics.propertyInjectionFailures++;
+        break;
+      case 'error':
+        metrics.errors++;
+        break;
+    }
+
+    this.services.set(event.identifier, metrics);
+
+    const recorded: IResolutionEvent = { ...event, label, timestamp: Date.now() };
+    for (const listener of this.listeners) {
+      listener(recorded);
+    }
+  }
+
+  /**
+   * Subscribe to the event stream.
+   * 
+   * @param listener - The listener to call for every event
+   * @returns () => void - Function that unsubscribes the listener
+   */
+  subscribe(listener: ResolutionEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the metrics of every service, slowest first.
+   * 
+   * @returns IServiceMetrics[] - Copies of the service metrics
+   */
+  getAll(): IServiceMetrics[] {
+    return Array.from(this.services.values(), metrics => ({ ...metrics }))
+      .sort((a, b) => b.totalTime + b.lazyLoadTime - (a.totalTime + a.lazyLoadTime));
+  }
+
+  /**
+   * Get the metrics of one service.
+   * 
+   * @param identifier - The service identifier
+   * @returns IServiceMetrics | undefined - A copy of the metrics, if any were recorded
+   */
+  get(identifier: interfaces.ServiceIdentifier): IServiceMetrics | undefined {
+    const metrics = this.services.get(identifier);
+    return metrics ? { ...metrics } : undefined;
+  }
+
+  /**
+   * Format the metrics of every service as a plain text table, slowest first.
+   * 
+   * @returns string - The table
+   */
+  toTable(): string {
+    const headers = ['Service', 'Resolutions', 'Constructions', 'Cache hits', 'Total ms', 'Avg ms', 'Max ms', 'Lazy loads', 'Lazy ms', 'Injection failures', 'Errors'];
+    const rows = this.getAll().map(metrics => [
+      metrics.identifier,
+      String(metrics.resolutions),
+      String(metrics.constructions),
+      String(metrics.cacheHits),
+      metrics.totalTime.toFixed(2),
+      metrics.averageTime.toFixed(2),
+      metrics.maxTime.toFixed(2),
+      String(metrics.lazyLoads),
+      metrics.lazyLoadTime.toFixed(2),
+      String(metrics.propertyInjectionFailures),
+      String(metrics.errors),
+    ]);
+    const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+    const format = (cells: string[]) =>
+      cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join(' | ');
+
+    return [format(headers), widths.map(width => '-'.repeat(width)).join('-|-'), ...rows.map(format)].join('\n');
+  }
+
+  /**
+   * Clear all recorded metrics. Listeners stay subscribed.
+   * 
+   * @returns void
+   */
+  reset(): void {
+    this.services.clear();
+  }
+
+  /**
+   * Create empty metrics for a service.
+   * 
+   * @private
+   * @static
+   * @param identifier - The service label
+   * @returns IServiceMetrics - Zeroed metrics
+   */
+  private static emptyMetrics(identifier: string): IServiceMetrics {
+    return {
+      identifier,
+      resolutions: 0,
+      constructions: 0,
+      cacheHits: 0,
+      totalTime: 0,
+      averageTime: 0,
+      maxTime: 0,
+      lazyLoads: 0,
+      lazyLoadTime: 0,
+      propertyInjectionFailures: 0,
+      errors: 0,
+    };
+  }
+
+  /**
+   * Create a new resolution metrics instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @returns ResolutionMetrics - A new metrics instance
+   */
+  static make(): ResolutionMetrics {
+    return new ResolutionMetrics();
+  }
+}
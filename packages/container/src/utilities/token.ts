@@ -0,0 +1,17 @@
+import { Token } from '../interfaces/token.interface';
+
+/**
+ * Create a typed service token.
+ * Tokens are registered symbols, so the same description always yields the same token.
+ * 
+ * @template T - The service type
+ * @param description - The token description
+ * @returns Token<T> - The typed token
+ * @example
+ * const LOGGER = createToken<ILogger>('ILogger');
+ * container.singleton(LOGGER, ConsoleLogger);
+ * container.get(LOGGER); // ILogger
+ */
+export function createToken<T>(description: string): Token<T> {
+  return Symbol.for(description) as Token<T>;
+}
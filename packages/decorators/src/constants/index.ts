@@ -0,0 +1 @@
+export * from './decorator-categories.constant';
\ No newline at end of file
@@ -205,7 +205,7 @@ export class DecoratorsServiceProvider extends BaseServiceProvider {
 }
 
 /**
- * Singleton instance of the decorators service provider.
- * Provides convenient access to the service provider throughout the application.
+ * The decorators service provider, ready to pass to Application.register().
+ * The application instantiates it with itself, e.g. `app.register(decoratorsServiceProvider)`.
  */
-export const decoratorsServiceProvider = new DecoratorsServiceProvider(null as any);
\ No newline at end of file
+export const decoratorsServiceProvider = DecoratorsServiceProvider;
\ No newline at end of file
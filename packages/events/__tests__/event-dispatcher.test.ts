@@ -0,0 +1,184 @@
+/**
+ * Tests for the event dispatcher
+ */
+
+import { EventDispatcher, IEventListener, IListenerContainer } from '../src';
+
+describe('EventDispatcher', () => {
+  let events: EventDispatcher;
+
+  beforeEach(() => {
+    events = EventDispatcher.make();
+  });
+
+  describe('listening', () => {
+    it('should call listeners with the payload and event name', async () => {
+      const listener = jest.fn();
+      events.listen('user.created', listener);
+
+      await events.dispatch('user.created', { id: 1 });
+
+      expect(listener).toHaveBeenCalledWith({ id: 1 }, 'user.created');
+    });
+
+    it('should register a listener for several events', async () => {
+      const listener = jest.fn();
+      events.listen(['user.created', 'user.deleted'], listener);
+
+      await events.dispatch('user.created');
+      await events.dispatch('user.deleted');
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove a listener with the returned function', async () => {
+      const listener = jest.fn();
+      const unsubscribe = events.listen('user.created', listener);
+
+      unsubscribe();
+      await events.dispatch('user.created');
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(events.hasListeners('user.created')).toBe(false);
+    });
+
+    it('should forget every listener of an event', async () => {
+      events.listen('user.created', jest.fn());
+      events.listen('user.created', jest.fn());
+
+      events.forget('user.created');
+
+      expect(events.hasListeners('user.created')).toBe(false);
+    });
+
+    it('should call once listeners a single time', async () => {
+      const listener = jest.fn();
+      events.once('user.created', listener);
+
+      await events.dispatch('user.created');
+      await events.dispatch('user.created');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('wildcards', () => {
+    it('should match wildcard patterns', async () => {
+      const listener = jest.fn();
+      events.listen('application.*', listener);
+
+      await events.dispatch('application.booted', { bootTime: 5 });
+      await events.dispatch('user.created');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ bootTime: 5 }, 'application.booted');
+    });
+
+    it('should match every event with a single asterisk', () => {
+      events.listen('*', jest.fn());
+
+      expect(events.hasListeners('anything.at.all')).toBe(true);
+    });
+
+    it('should treat other characters in patterns literally', () => {
+      events.listen('user.*', jest.fn());
+
+      expect(events.hasListeners('userXcreated')).toBe(false);
+    });
+  });
+
+  describe('ordering', () => {
+    it('should call higher priorities first and keep registration order otherwise', async () => {
+      const calls: string[] = [];
+      events.listen('order', () => calls.push('first'));
+      events.listen('order', () => calls.push('urgent'), { priority: 10 });
+      events.listen('*', () => calls.push('second'));
+
+      await events.dispatch('order');
+
+      expect(calls).toEqual(['urgent', 'first', 'second']);
+    });
+
+    it('should await async listeners in turn', async () => {
+      const calls: string[] = [];
+      events.listen('order', async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        calls.push('slow');
+      });
+      events.listen('order', () => calls.push('fast'));
+
+      await events.dispatch('order');
+
+      expect(calls).toEqual(['slow', 'fast']);
+    });
+
+    it('should stop propagation when a listener returns false', async () => {
+      const listener = jest.fn();
+      events.listen('order', () => false, { priority: 1 });
+      events.listen('order', listener);
+
+      const results = await events.dispatch('order');
+
+      expect(results).toEqual([false]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('class-based listeners', () => {
+    class SendWelcomeEmail implements IEventListener<{ email: string }> {
+      static sent: string[] = [];
+
+      handle(payload: { email: string }): void {
+        SendWelcomeEmail.sent.push(payload.email);
+      }
+    }
+
+    beforeEach(() => {
+      SendWelcomeEmail.sent = [];
+    });
+
+    it('should instantiate listener classes without a container', async () => {
+      events.listen('user.created', SendWelcomeEmail);
+
+      await events.dispatch('user.created', { email: 'a@example.com' });
+
+      expect(SendWelcomeEmail.sent).toEqual(['a@example.com']);
+    });
+
+    it('should resolve listener classes and identifiers from the container', async () => {
+      const listener = { handle: jest.fn() };
+      const container: IListenerContainer = {
+        get: jest.fn().mockReturnValue(listener) as IListenerContainer['get'],
+        isBound: jest.fn().mockReturnValue(true),
+      };
+      events = EventDispatcher.make(container);
+      events.listen('user.created', SendWelcomeEmail);
+      events.listen('user.created', 'AuditListener');
+
+      await events.dispatch('user.created', { email: 'a@example.com' });
+
+      expect(container.get).toHaveBeenCalledWith(SendWelcomeEmail);
+      expect(container.get).toHaveBeenCalledWith('AuditListener');
+      expect(listener.handle).toHaveBeenCalledTimes(2);
+      expect(SendWelcomeEmail.sent).toEqual([]);
+    });
+
+    it('should reject identifiers without a container', async () => {
+      events.listen('user.created', 'AuditListener');
+
+      await expect(events.dispatch('user.created')).rejects.toThrow(
+        "Failed to dispatch event 'user.created' to listener 'AuditListener': Cannot resolve listener 'AuditListener' without a container"
+      );
+    });
+  });
+
+  it('should report the failing listener', async () => {
+    events.listen('user.created', function notify() {
+      throw new Error('mail server unavailable');
+    });
+
+    await expect(events.dispatch('user.created')).rejects.toThrow(
+      "Failed to dispatch event 'user.created' to listener 'notify': mail server unavailable"
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,309 @@
+/**
+ * Tests for queued listeners, queue drivers and the queue worker
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventDispatcher, FileQueueDriver, IShouldQueue, QueueWorker } from '../src';
+
+describe('Queued listeners', () => {
+  let events: EventDispatcher;
+  let worker: QueueWorker;
+
+  beforeEach(() => {
+    events = EventDispatcher.make();
+    worker = QueueWorker.make(events);
+  });
+
+  describe('dispatching', () => {
+    it('should push a job instead of calling a queued listener', async () => {
+      const reindex = jest.fn();
+      events.listen('post.saved', function reindexPost(payload) {
+        reindex(payload);
+      }, { queue: true });
+
+      await events.dispatch('post.saved', { id: 7 });
+
+      expect(reindex).not.toHaveBeenCalled();
+      expect(await events.getQueue().size()).toBe(1);
+
+      expect(await worker.work()).toBe(1);
+      expect(reindex).toHaveBeenCalledWith({ id: 7 });
+      expect(await events.getQueue().size()).toBe(0);
+    });
+
+    it('should queue listener classes implementing IShouldQueue', async () => {
+      const sent: string[] = [];
+      class SendWelcomeEmail implements IShouldQueue<{ email: string }> {
+        readonly shouldQueue = true as const;
+
+        handle(payload: { email: string }): void {
+          sent.push(payload.email);
+        }
+      }
+      events.listen('user.created', SendWelcomeEmail);
+
+      await events.dispatch('user.created', { email: 'a@example.com' });
+      expect(sent).toEqual([]);
+
+      await worker.work();
+      expect(sent).toEqual(['a@example.com']);
+    });
+
+    it('should handle jobs of one-time listeners after they are removed', async () => {
+      const listener = jest.fn();
+      events.once('user.created', function welcome(payload) {
+        listener(payload);
+      }, { queue: true });
+
+      await events.dispatch('user.created', 1);
+      await events.dispatch('user.created', 2);
+      await worker.work();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject anonymous queued listeners without an id', () => {
+      expect(() => events.listen('user.created', () => undefined, { queue: true })).toThrow(
+        "Cannot queue an anonymous listener for 'user.created': give it a name or an id"
+      );
+    });
+
+    it('should hand each job to the listener it was queued for', async () => {
+      const calls: string[] = [];
+      const notify = (channel: string) =>
+        function notifyUser() {
+          calls.push(channel);
+        };
+      events.listen('user.created', notify('mail'), { queue: true });
+      events.listen('user.created', notify('sms'), { queue: true });
+      events.listen('user.created', () => calls.push('slack'), { queue: true, id: 'slack' });
+
+      await events.dispatch('user.created');
+      await worker.work();
+
+      expect(calls).toEqual(['mail', 'sms', 'slack']);
+      expect(events.getListeners('user.created').map(registration => registration.id)).toEqual([
+        'notifyUser',
+        'notifyUser#2',
+        'slack',
+      ]);
+    });
+
+    it('should reject an id that belongs to another listener', () => {
+      events.listen('user.created', () => undefined, { queue: true, id: 'welcome' });
+
+      expect(() => events.listen('user.deleted', () => undefined, { queue: true, id: 'welcome' })).toThrow(
+        "Cannot register listener with id 'welcome': the id belongs to another listener"
+      );
+    });
+
+    it('should serialize payloads, including errors', async () => {
+      const received: unknown[] = [];
+      events.listen('application.error', function report(payload) {
+        received.push(payload);
+      }, { queue: true });
+      const error = Object.assign(new TypeError('boom'), { code: 'E_BOOM' });
+
+      await events.dispatch('application.error', { type: 'boot', error, at: new Date(0) });
+      await worker.work();
+
+      expect(received).toEqual([
+        {
+          type: 'boot',
+          error: { name: 'TypeError', message: 'boom', stack: error.stack, code: 'E_BOOM' },
+          at: '1970-01-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should refuse payloads that cannot be serialized', async () => {
+      events.listen('post.saved', function index() {}, { queue: true });
+      const payload: Record<string, unknown> = {};
+      payload.self = payload;
+
+      await expect(events.dispatch('post.saved', payload)).rejects.toThrow(
+        "Failed to dispatch event 'post.saved' to listener 'index': Cannot queue the payload"
+      );
+      expect(await events.getQueue().size()).toBe(0);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry failed jobs after their backoff', async () => {
+      let attempts = 0;
+      events.listen('post.saved', function flaky() {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error('search index offline');
+        }
+      }, { queue: true, tries: 3, backoff: [0, 20] });
+
+      await events.dispatch('post.saved');
+
+      expect(await worker.work()).toBe(2);
+      expect(attempts).toBe(2);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(await worker.work()).toBe(1);
+      expect(attempts).toBe(3);
+      expect(await events.getQueue().getFailedJobs()).toEqual([]);
+    });
+
+    it('should move jobs to the failed jobs once their tries are used up', async () => {
+      events.listen('post.saved', function broken() {
+        throw new Error('search index offline');
+      }, { queue: true, tries: 2 });
+
+      await events.dispatch('post.saved', { id: 7 });
+      await worker.work();
+
+      const failed = await events.getQueue().getFailedJobs();
+      expect(failed).toHaveLength(1);
+      expect(failed[0]).toMatchObject({
+        error: 'search index offline',
+        job: { event: 'post.saved', listener: 'broken', payload: { id: 7 }, attempts: 2 },
+      });
+    });
+
+    it('should retry and forget failed jobs', async () => {
+      let fail = true;
+      const handled = jest.fn();
+      events.listen('post.saved', function recovering() {
+        if (fail) {
+          throw new Error('offline');
+        }
+        handled();
+      }, { queue: true });
+
+      await events.dispatch('post.saved');
+      await worker.work();
+      const [failed] = await events.getQueue().getFailedJobs();
+
+      fail = false;
+      await worker.retry(failed.id);
+      await worker.work();
+
+      expect(handled).toHaveBeenCalledTimes(1);
+      expect(await events.getQueue().getFailedJobs()).toEqual([]);
+      await expect(worker.retry(failed.id)).rejects.toThrow(`Failed to retry job '${failed.id}'`);
+    });
+
+    it('should keep a job queued while it is handled', async () => {
+      let size: number | undefined;
+      events.listen('post.saved', async function index() {
+        size = await events.getQueue().size();
+      }, { queue: true });
+
+      await events.dispatch('post.saved');
+      await worker.work();
+
+      expect(size).toBe(1);
+      expect(await events.getQueue().size()).toBe(0);
+    });
+
+    it('should fail jobs whose listener is not registered', async () => {
+      await events.getQueue().push({
+        id: 'orphan',
+        event: 'post.saved',
+        listener: 'removedListener',
+        payload: null,
+        attempts: 0,
+        tries: 1,
+        backoff: 0,
+        availableAt: Date.now(),
+        createdAt: Date.now(),
+      });
+
+      await worker.work();
+
+      const [failed] = await events.getQueue().getFailedJobs();
+      expect(failed.error).toBe("No listener 'removedListener' is registered for event 'post.saved'");
+    });
+  });
+
+  describe('FileQueueDriver', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'tsvel-events-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep jobs and failed jobs across driver instances', async () => {
+      const file = join(directory, 'queue.json');
+      const handled = jest.fn();
+      events.setQueue(FileQueueDriver.make(file));
+      events.listen('post.saved', function index(payload) {
+        handled(payload);
+      }, { queue: true });
+
+      await events.dispatch('post.saved', { id: 1 });
+      await events.dispatch('post.saved', { id: 2 });
+
+      // A later process registers the same listeners and works the queue
+      const restarted = EventDispatcher.make().setQueue(FileQueueDriver.make(file));
+      restarted.listen('post.saved', function index(payload) {
+        handled(payload);
+      }, { queue: true });
+      await restarted.getQueue().fail((await restarted.getQueue().pop())!, new Error('offline'));
+
+      expect(await QueueWorker.make(restarted).work()).toBe(1);
+      expect(handled).toHaveBeenCalledWith({ id: 2 });
+      expect(await FileQueueDriver.make(file).getFailedJobs()).toMatchObject([{ error: 'offline', job: { payload: { id: 1 } } }]);
+    });
+
+    it('should hand out the job of a worker that crashed again after the retry-after time', async () => {
+      const file = join(directory, 'queue.json');
+      const handled = jest.fn();
+      events.setQueue(FileQueueDriver.make(file, 20));
+      events.listen('post.saved', function index(payload) {
+        handled(payload);
+      }, { queue: true, tries: 2 });
+      await events.dispatch('post.saved', { id: 1 });
+
+      // A worker reserves the job, then the process dies before settling it
+      const reserved = await FileQueueDriver.make(file, 20).pop();
+      expect(reserved).toMatchObject({ attempts: 1, payload: { id: 1 } });
+      expect(await FileQueueDriver.make(file, 20).pop()).toBeNull();
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(await worker.work()).toBe(1);
+      expect(handled).toHaveBeenCalledWith({ id: 1 });
+      expect(await events.getQueue().size()).toBe(0);
+    });
+
+    it('should fail a crashed job that has used up its tries', async () => {
+      const file = join(directory, 'queue.json');
+      const handled = jest.fn();
+      events.setQueue(FileQueueDriver.make(file, 0));
+      events.listen('post.saved', function index() {
+        handled();
+      }, { queue: true });
+      await events.dispatch('post.saved');
+
+      await FileQueueDriver.make(file, 0).pop();
+      await worker.work();
+
+      expect(handled).not.toHaveBeenCalled();
+      expect(await events.getQueue().getFailedJobs()).toMatchObject([
+        { error: 'Job was attempted 1 times without being settled', job: { attempts: 2 } },
+      ]);
+    });
+
+    it('should not interleave concurrent operations', async () => {
+      const queue = FileQueueDriver.make(join(directory, 'nested', 'queue.json'));
+      events.setQueue(queue);
+      events.listen('post.saved', function index() {}, { queue: true });
+
+      await Promise.all([1, 2, 3, 4, 5].map(id => events.dispatch('post.saved', { id })));
+
+      expect(await queue.size()).toBe(5);
+    });
+  });
+});
\ No newline at end of file
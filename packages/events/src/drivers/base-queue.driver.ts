@@ -0,0 +1,171 @@
+import { IQueueDriver, IQueuedJob, IFailedJob, IQueueState } from '../interfaces/queue-driver.interface';
+
+/**
+ * Abstract base class for queue drivers.
+ * Implements the queue operations against an IQueueState; concrete drivers
+ * decide where the state lives by implementing update().
+ * 
+ * @abstract
+ * @class BaseQueueDriver
+ * @implements {IQueueDriver}
+ */
+export abstract class BaseQueueDriver implements IQueueDriver {
+  /**
+   * Default time in milliseconds after which an unsettled reservation is handed out again.
+   */
+  static readonly DEFAULT_RETRY_AFTER = 60000;
+
+  /**
+   * Creates a new queue driver.
+   * 
+   * @param retryAfter - Time in milliseconds after which an unsettled reservation,
+   * e.g. of a worker that crashed, is handed out again
+   */
+  constructor(protected readonly retryAfter: number = BaseQueueDriver.DEFAULT_RETRY_AFTER) {}
+
+  /**
+   * Add a job to the queue.
+   * 
+   * @param job - The job to add
+   * @returns Promise<void>
+   */
+  push(job: IQueuedJob): Promise<void> {
+    return this.update(state => {
+      state.jobs.push(job);
+    });
+  }
+
+  /**
+   * Reserve and return the oldest job that is available now, counting an attempt.
+   * Jobs whose reservation is older than the retry-after time are available again.
+   * 
+   * @returns Promise<IQueuedJob | null> - A copy of the reserved job, or null if no job is available
+   */
+  pop(): Promise<IQueuedJob | null> {
+    return this.update(state => {
+      const now = Date.now();
+      const job = state.jobs.find(
+        queued => queued.availableAt <= now && (queued.reservedAt === undefined || queued.reservedAt + this.retryAfter <= now)
+      );
+
+      if (!job) {
+        return null;
+      }
+
+      job.reservedAt = now;
+      job.attempts++;
+      return { ...job };
+    });
+  }
+
+  /**
+   * Remove a handled job from the queue.
+   * 
+   * @param job - The reserved job
+   * @returns Promise<void>
+   */
+  ack(job: IQueuedJob): Promise<void> {
+    return this.update(state => {
+      state.jobs = state.jobs.filter(queued => queued.id !== job.id);
+    });
+  }
+
+  /**
+   * Put a job back on the queue, available after a delay.
+   * A reserved job keeps its place in the queue.
+   * 
+   * @param job - The job to release
+   * @param delay - Delay in milliseconds
+   * @returns Promise<void>
+   */
+  release(job: IQueuedJob, delay: number): Promise<void> {
+    return this.update(state => {
+      const released = { ...job, availableAt: Date.now() + delay, reservedAt: undefined };
+      const index = state.jobs.findIndex(queued => queued.id === job.id);
+
+      if (index === -1) {
+        state.jobs.push(released);
+      } else {
+        state.jobs[index] = released;
+      }
+    });
+  }
+
+  /**
+   * Get the number of queued jobs, including jobs that are not available yet.
+   * 
+   * @returns Promise<number> - The queue size
+   */
+  size(): Promise<number> {
+    return this.update(state => state.jobs.length);
+  }
+
+  /**
+   * Remove a job from the queue and add it to the failed jobs.
+   * 
+   * @param job - The failed job
+   * @param error - The error thrown by its last attempt
+   * @returns Promise<void>
+   */
+  fail(job: IQueuedJob, error: unknown): Promise<void> {
+    return this.update(state => {
+      state.jobs = state.jobs.filter(queued => queued.id !== job.id);
+      state.failed.push({
+        id: job.id,
+        job: { ...job, reservedAt: undefined },
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: Date.now(),
+      });
+    });
+  }
+
+  /**
+   * Get the failed jobs, oldest first.
+   * 
+   * @returns Promise<IFailedJob[]> - The failed jobs
+   */
+  getFailedJobs(): Promise<IFailedJob[]> {
+    return this.update(state => [...state.failed]);
+  }
+
+  /**
+   * Remove a failed job.
+   * 
+   * @param id - The job identifier
+   * @returns Promise<boolean> - True if the job was removed
+   */
+  forgetFailedJob(id: string): Promise<boolean> {
+    return this.update(state => {
+      const index = state.failed.findIndex(failed => failed.id === id);
+      if (index === -1) {
+        return false;
+      }
+
+      state.failed.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * Remove every failed job.
+   * 
+   * @returns Promise<void>
+   */
+  flushFailedJobs(): Promise<void> {
+    return this.update(state => {
+      state.failed = [];
+    });
+  }
+
+  /**
+   * Run an operation against the queue state.
+   * Operations must not be interleaved, so a driver can load and save the state around them.
+   * 
+   * @protected
+   * @abstract
+   * @template T
+   * @param operation - The operation to run
+   * @returns Promise<T> - The operation result
+   */
+  protected abstract update<T>(operation: (state: IQueueState) => T): Promise<T>;
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BaseQueueDriver } from './base-queue.driver';
+import { IQueueState } from '../interfaces/queue-driver.interface';
+
+/**
+ * Queue driver keeping jobs in a JSON file, so queued and failed jobs survive restarts.
+ * Works offline without a database. Jobs stay in the file while they are handled,
+ * so a job reserved by a worker that crashed is handed out again after the
+ * retry-after time. Operations within a process are serialized; the file is not
+ * meant to be shared by several processes.
+ * 
+ * @class FileQueueDriver
+ * @extends {BaseQueueDriver}
+ */
+export class FileQueueDriver extends BaseQueueDriver {
+  /**
+   * The operation currently running, later operations wait for it.
+   */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new file queue driver.
+   * 
+   * @param file - Path of the JSON file holding the queue
+   * @param retryAfter - Time in milliseconds after which an unsettled reservation is handed out again
+   */
+  constructor(private readonly file: string, retryAfter?: number) {
+    super(retryAfter);
+  }
+
+  /**
+   * Run an operation against the queue state stored in the file.
+   * The file is read before and written after the operation, replacing it atomically.
+   * 
+   * @protected
+   * @template T
+   * @param operation - The operation to run
+   * @returns Promise<T> - The operation result
+   */
+  protected update<T>(operation: (state: IQueueState) => T): Promise<T> {
+    const run = this.pending.then(async () => {
+      const state = await this.read();
+      const result = operation(state);
+      await this.write(state);
+      return result;
+    });
+
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Read the queue state from the file.
+   * 
+   * @private
+   * @returns Promise<IQueueState> - The stored state, or an empty state if the file does not exist
+   * @throws Error if the file cannot be parsed
+   */
+  private async read(): Promise<IQueueState> {
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { jobs: [], failed: [] };
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as IQueueState;
+    } catch (error) {
+      throw new Error(`Failed to read queue file '${this.file}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Write the queue state to the file.
+   * 
+   * @private
+   * @param state - The state to write
+   * @returns Promise<void>
+   */
+  private async write(state: IQueueState): Promise<void> {
+    const temporary = `${this.file}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(state, null, 2));
+    await fs.rename(temporary, this.file);
+  }
+
+  /**
+   * Create a new file queue driver instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param file - Path of the JSON file holding the queue
+   * @param retryAfter - Time in milliseconds after which an unsettled reservation is handed out again
+   * @returns FileQueueDriver - A new file queue driver
+   */
+  static make(file: string, retryAfter?: number): FileQueueDriver {
+    return new FileQueueDriver(file, retryAfter);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * Barrel export for all queue drivers.
+ * Provides centralized access to the queue driver implementations.
+ */
+
+export * from './base-queue.driver';
+export * from './memory-queue.driver';
+export * from './file-queue.driver';
\ No newline at end of file
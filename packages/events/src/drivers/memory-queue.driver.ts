@@ -0,0 +1,40 @@
+import { BaseQueueDriver } from './base-queue.driver';
+import { IQueueState } from '../interfaces/queue-driver.interface';
+
+/**
+ * Queue driver keeping jobs in memory.
+ * Jobs are lost when the process exits; use FileQueueDriver to keep them.
+ * 
+ * @class MemoryQueueDriver
+ * @extends {BaseQueueDriver}
+ */
+export class MemoryQueueDriver extends BaseQueueDriver {
+  /**
+   * The queued and failed jobs.
+   */
+  private state: IQueueState = { jobs: [], failed: [] };
+
+  /**
+   * Run an operation against the in-memory queue state.
+   * 
+   * @protected
+   * @template T
+   * @param operation - The operation to run
+   * @returns Promise<T> - The operation result
+   */
+  protected async update<T>(operation: (state: IQueueState) => T): Promise<T> {
+    return operation(this.state);
+  }
+
+  /**
+   * Create a new memory queue driver instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param retryAfter - Time in milliseconds after which an unsettled reservation is handed out again
+   * @returns MemoryQueueDriver - A new memory queue driver
+   */
+  static make(retryAfter?: number): MemoryQueueDriver {
+    return new MemoryQueueDriver(retryAfter);
+  }
+}
\ No newline at end of file
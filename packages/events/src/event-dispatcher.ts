@@ -0,0 +1,479 @@
+import { IEventDispatcher } from './interfaces/event-dispatcher.interface';
+import {
+  Listener,
+  IEventListener,
+  IEventListenerConstructor,
+  IShouldQueue,
+  IListenOptions,
+  IListenerRegistration,
+  IListenerContainer,
+} from './interfaces/event-listener.interface';
+import { IQueueDriver, IQueuedJob } from './interfaces/queue-driver.interface';
+import { MemoryQueueDriver } from './drivers/memory-queue.driver';
+
+/**
+ * Listener registration with the sequence number used to keep registration order.
+ */
+type StoredRegistration = IListenerRegistration & { sequence: number };
+
+/**
+ * Event dispatcher supporting wildcard patterns, listener priorities, one-time
+ * listeners, class-based listeners resolved from a container and queued
+ * listeners handled later by a QueueWorker.
+ * 
+ * @class EventDispatcher
+ * @implements {IEventDispatcher}
+ */
+export class EventDispatcher implements IEventDispatcher {
+  /**
+   * Registered listeners keyed by the event name or pattern they were registered for.
+   */
+  private listeners = new Map<string, StoredRegistration[]>();
+
+  /**
+   * Compiled wildcard patterns keyed by pattern.
+   */
+  private patterns = new Map<string, RegExp>();
+
+  /**
+   * Number of listeners registered so far, used to order equal priorities.
+   */
+  private sequence = 0;
+
+  /**
+   * The queue driver receiving jobs for queued listeners.
+   */
+  private queue: IQueueDriver = MemoryQueueDriver.make();
+
+  /**
+   * Listeners that may be queued, keyed by the id stored in their jobs, so jobs
+   * can still be handled after a one-time listener has been removed.
+   */
+  private queuedListeners = new Map<string, Listener>();
+
+  /**
+   * Creates a new event dispatcher.
+   * 
+   * @param container - Optional container used to resolve class-based listeners
+   */
+  constructor(private readonly container?: IListenerContainer) {}
+
+  /**
+   * Register a listener for one or more events or wildcard patterns.
+   * 
+   * @template T - The event payload type
+   * @param events - The event name(s) or pattern(s)
+   * @param listener - The listener to register
+   * @param options - Optional priority and once settings
+   * @returns () => void - Function that removes the listener
+   * @throws Error if an anonymous function is queued without an id, or the id is taken
+   */
+  listen<T = any>(events: string | string[], listener: Listener<T>, options: IListenOptions = {}): () => void {
+    const queueable = options.queue || typeof listener !== 'function' || EventDispatcher.isListenerClass(listener);
+
+    if (options.queue && options.id === undefined && EventDispatcher.labelFor(listener) === 'anonymous') {
+      throw new Error(`Cannot queue an anonymous listener for '${String(events)}': give it a name or an id`);
+    }
+
+    const id = queueable ? this.assignListenerId(listener, options.id) : undefined;
+    const registrations = ([] as string[]).concat(events).map(event => {
+      const registration: StoredRegistration = {
+        event,
+        listener,
+        priority: options.priority ?? 0,
+        once: options.once ?? false,
+        queue: options.queue ?? false,
+        ...(id !== undefined && { id }),
+        tries: options.tries,
+        backoff: options.backoff,
+        sequence: this.sequence++,
+      };
+
+      this.listeners.set(event, [...(this.listeners.get(event) || []), registration]);
+      return registration;
+    });
+
+    return () => registrations.forEach(registration => this.remove(registration));
+  }
+
+  /**
+   * Register a listener that is removed after it has been called once.
+   * 
+   * @template T - The event payload type
+   * @param events - The event name(s) or pattern(s)
+   * @param listener - The listener to register
+   * @param options - Optional priority
+   * @returns () => void - Function that removes the listener
+   */
+  once<T = any>(events: string | string[], listener: Listener<T>, options: Omit<IListenOptions, 'once'> = {}): () => void {
+    return this.listen(events, listener, { ...options, once: true });
+  }
+
+  /**
+   * Remove every listener registered for an event or pattern.
+   * 
+   * @param event - The event name or pattern, as it was registered
+   * @returns void
+   */
+  forget(event: string): void {
+    this.listeners.delete(event);
+  }
+
+  /**
+   * Check if any listener would receive an event.
+   * 
+   * @param event - The event name
+   * @returns boolean - True if at least one listener matches the event
+   */
+  hasListeners(event: string): boolean {
+    return Array.from(this.listeners.keys()).some(pattern => this.matches(pattern, event));
+  }
+
+  /**
+   * Get the listeners that would receive an event, in the order they are called.
+   * Higher priorities come first; equal priorities keep registration order.
+   * 
+   * @param event - The event name
+   * @returns IListenerRegistration[] - The matching listeners
+   */
+  getListeners(event: string): IListenerRegistration[] {
+    return this.getMatchingRegistrations(event);
+  }
+
+  /**
+   * Dispatch an event to its listeners, awaiting each listener in turn.
+   * Queued listeners are pushed to the queue instead of being called.
+   * A listener returning false stops the event from reaching the remaining listeners.
+   * 
+   * @template T - The event payload type
+   * @param event - The event name
+   * @param payload - Optional event payload
+   * @returns Promise<unknown[]> - The value returned by each listener that was called
+   * @throws Error if a listener cannot be resolved or throws
+   */
+  async dispatch<T = any>(event: string, payload?: T): Promise<unknown[]> {
+    const results: unknown[] = [];
+
+    for (const registration of this.getMatchingRegistrations(event)) {
+      if (registration.once) {
+        this.remove(registration);
+      }
+
+      try {
+        const result = await this.callListener(registration, event, payload);
+        results.push(result);
+
+        if (result === false) {
+          break;
+        }
+      } catch (error) {
+        throw new Error(
+          `Failed to dispatch event '${event}' to listener '${EventDispatcher.labelFor(registration.listener)}': ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Handle a queued job by calling the listener it was queued for.
+   * Used by QueueWorker; the listener is looked up by the id stored in the job.
+   * 
+   * @param job - The queued job
+   * @returns Promise<unknown> - The listener result
+   * @throws Error if no listener with the job's id is registered
+   */
+  async handleJob(job: IQueuedJob): Promise<unknown> {
+    const listener = this.queuedListeners.get(job.listener);
+
+    if (listener === undefined) {
+      throw new Error(`No listener '${job.listener}' is registered for event '${job.event}'`);
+    }
+
+    if (typeof listener === 'function' && !EventDispatcher.isListenerClass(listener)) {
+      return listener(job.payload, job.event);
+    }
+
+    return this.resolveListener(listener).handle(job.payload, job.event);
+  }
+
+  /**
+   * Set the queue driver that receives jobs for queued listeners.
+   * 
+   * @param queue - The queue driver
+   * @returns this - The dispatcher for method chaining
+   */
+  setQueue(queue: IQueueDriver): this {
+    this.queue = queue;
+    return this;
+  }
+
+  /**
+   * Get the queue driver that receives jobs for queued listeners.
+   * 
+   * @returns IQueueDriver - The queue driver
+   */
+  getQueue(): IQueueDriver {
+    return this.queue;
+  }
+
+  /**
+   * Get the stored registrations matching an event, in call order.
+   * 
+   * @private
+   * @param event - The event name
+   * @returns StoredRegistration[] - The matching registrations
+   */
+  private getMatchingRegistrations(event: string): StoredRegistration[] {
+    const registrations: StoredRegistration[] = [];
+
+    for (const [pattern, listeners] of this.listeners) {
+      if (this.matches(pattern, event)) {
+        registrations.push(...listeners);
+      }
+    }
+
+    return registrations.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+  }
+
+  /**
+   * Remove a single registration.
+   * 
+   * @private
+   * @param registration - The registration to remove
+   * @returns void
+   */
+  private remove(registration: StoredRegistration): void {
+    const listeners = (this.listeners.get(registration.event) || []).filter(stored => stored !== registration);
+
+    if (listeners.length > 0) {
+      this.listeners.set(registration.event, listeners);
+    } else {
+      this.listeners.delete(registration.event);
+    }
+  }
+
+  /**
+   * Call a listener, resolving class-based listeners first.
+   * Queued listeners are pushed to the queue instead.
+   * 
+   * @private
+   * @param registration - The registration of the listener to call
+   * @param event - The event name
+   * @param payload - The event payload
+   * @returns Promise<unknown> - The listener result
+   */
+  private async callListener(registration: StoredRegistration, event: string, payload: unknown): Promise<unknown> {
+    const { listener } = registration;
+
+    if (typeof listener === 'function' && !EventDispatcher.isListenerClass(listener)) {
+      return registration.queue ? this.pushJob(registration, event, payload) : listener(payload, event);
+    }
+
+    const instance = this.resolveListener(listener);
+    if (registration.queue || EventDispatcher.shouldQueue(instance)) {
+      return this.pushJob(registration, event, payload, instance);
+    }
+
+    return instance.handle(payload, event);
+  }
+
+  /**
+   * Push a job for a queued listener.
+   * Retry settings from the registration take precedence over the listener's own.
+   * 
+   * @private
+   * @param registration - The registration of the queued listener
+   * @param event - The event name
+   * @param payload - The event payload
+   * @param instance - The resolved listener, for class-based listeners
+   * @returns Promise<void>
+   * @throws Error if the payload cannot be serialized
+   */
+  private async pushJob(
+    registration: StoredRegistration,
+    event: string,
+    payload: unknown,
+    instance?: Partial<IShouldQueue>
+  ): Promise<void> {
+    const now = Date.now();
+    let serialized: unknown;
+
+    try {
+      serialized = EventDispatcher.serializePayload(payload);
+    } catch (error) {
+      throw new Error(`Cannot queue the payload: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    await this.queue.push({
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      event,
+      listener: registration.id!,
+      payload: serialized,
+      attempts: 0,
+      tries: registration.tries ?? instance?.tries ?? 1,
+      backoff: registration.backoff ?? instance?.backoff ?? 0,
+      availableAt: now,
+      createdAt: now,
+    });
+  }
+
+  /**
+   * Assign the id stored in the jobs of a listener that may be queued.
+   * A listener registered again keeps its id; otherwise the listener name is used,
+   * numbered when another listener already has it.
+   * 
+   * @private
+   * @param listener - The listener
+   * @param id - Optional id requested at registration
+   * @returns string - The listener id
+   * @throws Error if the requested id belongs to another listener
+   */
+  private assignListenerId(listener: Listener, id?: string): string {
+    if (id !== undefined) {
+      const registered = this.queuedListeners.get(id);
+      if (registered !== undefined && registered !== listener) {
+        throw new Error(`Cannot register listener with id '${id}': the id belongs to another listener`);
+      }
+
+      this.queuedListeners.set(id, listener);
+      return id;
+    }
+
+    for (const [existing, registered] of this.queuedListeners) {
+      if (registered === listener) {
+        return existing;
+      }
+    }
+
+    const label = EventDispatcher.labelFor(listener);
+    let candidate = label;
+    for (let number = 2; this.queuedListeners.has(candidate); number++) {
+      candidate = `${label}#${number}`;
+    }
+
+    this.queuedListeners.set(candidate, listener);
+    return candidate;
+  }
+
+  /**
+   * Resolve a class-based listener.
+   * Identifiers and bound classes come from the container; unbound classes are instantiated.
+   * 
+   * @private
+   * @param listener - The listener class or container identifier
+   * @returns IEventListener - The listener instance
+   * @throws Error if an identifier is given without a container
+   */
+  private resolveListener(listener: Listener): IEventListener {
+    if (this.container && (typeof listener !== 'function' || this.container.isBound(listener))) {
+      return this.container.get<IEventListener>(listener);
+    }
+
+    if (typeof listener === 'function') {
+      return new (listener as IEventListenerConstructor)();
+    }
+
+    throw new Error(`Cannot resolve listener '${String(listener)}' without a container`);
+  }
+
+  /**
+   * Check if an event name matches a registered event name or wildcard pattern.
+   * 
+   * @private
+   * @param pattern - The registered event name or pattern
+   * @param event - The event name
+   * @returns boolean - True if the event matches
+   */
+  private matches(pattern: string, event: string): boolean {
+    if (!pattern.includes('*')) {
+      return pattern === event;
+    }
+
+    if (!this.patterns.has(pattern)) {
+      const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      this.patterns.set(pattern, new RegExp(`^${source}$`));
+    }
+
+    return this.patterns.get(pattern)!.test(event);
+  }
+
+  /**
+   * Check if a function is a listener class rather than a listener function.
+   * 
+   * @private
+   * @static
+   * @param listener - The function to check
+   * @returns boolean - True if the function is a class with a handle() method
+   */
+  private static isListenerClass(listener: Function): listener is IEventListenerConstructor {
+    return typeof listener.prototype?.handle === 'function';
+  }
+
+  /**
+   * Check if a resolved listener is queued.
+   * 
+   * @private
+   * @static
+   * @param listener - The resolved listener
+   * @returns boolean - True if the listener implements IShouldQueue
+   */
+  private static shouldQueue(listener: IEventListener): listener is IShouldQueue {
+    return (listener as Partial<IShouldQueue>).shouldQueue === true;
+  }
+
+  /**
+   * Serialize a payload the way persistent queue drivers store it, so queued
+   * listeners receive the same payload whichever driver is used. Errors become
+   * plain objects with their name, message, stack and own properties.
+   * 
+   * @private
+   * @static
+   * @param payload - The event payload
+   * @returns unknown - The JSON round-tripped payload
+   * @throws Error if the payload cannot be represented as JSON, e.g. a circular structure
+   */
+  private static serializePayload(payload: unknown): unknown {
+    if (payload === undefined) {
+      return undefined;
+    }
+
+    const json = JSON.stringify(payload, (_key, value) =>
+      value instanceof Error ? { ...value, name: value.name, message: value.message, stack: value.stack } : value
+    );
+
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  /**
+   * Get a human readable label for a listener.
+   * 
+   * @private
+   * @static
+   * @param listener - The listener
+   * @returns string - The label
+   */
+  private static labelFor(listener: Listener): string {
+    return typeof listener === 'function' ? listener.name || 'anonymous' : String(listener);
+  }
+
+  /**
+   * Create a new event dispatcher instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param container - Optional container used to resolve class-based listeners
+   * @returns EventDispatcher - A new event dispatcher
+   */
+  static make(container?: IListenerContainer): EventDispatcher {
+    return new EventDispatcher(container);
+  }
+}
+
+export default EventDispatcher;
\ No newline at end of file
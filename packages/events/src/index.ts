@@ -0,0 +1,20 @@
+/**
+ * Main entry point for the events package.
+ * Exports all public APIs for event dispatching.
+ */
+
+// Core event functionality
+export { EventDispatcher } from './event-dispatcher';
+export { default } from './event-dispatcher';
+export { QueueWorker } from './queue-worker';
+
+// Queue drivers
+export * from './drivers';
+
+// Interfaces
+export * from './interfaces';
+
+// Re-export commonly used types
+export type { IEventDispatcher } from './interfaces/event-dispatcher.interface';
+export type { IEventListener, IShouldQueue, Listener, IListenOptions } from './interfaces/event-listener.interface';
+export type { IQueueDriver, IQueuedJob, IFailedJob } from './interfaces/queue-driver.interface';
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Listener, IListenOptions, IListenerRegistration } from './event-listener.interface';
+import { IQueueDriver, IQueuedJob } from './queue-driver.interface';
+
+/**
+ * Core event dispatcher interface.
+ * Event names are dot separated; listeners may be registered for wildcard
+ * patterns such as `application.*`, or `*` for every event.
+ * 
+ * @interface IEventDispatcher
+ */
+export interface IEventDispatcher {
+  /**
+   * Register a listener for one or more events or wildcard patterns.
+   * 
+   * @template T - The event payload type
+   * @param events - The event name(s) or pattern(s)
+   * @param listener - The listener to register
+   * @param options - Optional priority and once settings
+   * @returns () => void - Function that removes the listener
+   */
+  listen<T = any>(events: string | string[], listener: Listener<T>, options?: IListenOptions): () => void;
+
+  /**
+   * Register a listener that is removed after it has been called once.
+   * 
+   * @template T - The event payload type
+   * @param events - The event name(s) or pattern(s)
+   * @param listener - The listener to register
+   * @param options - Optional priority
+   * @returns () => void - Function that removes the listener
+   */
+  once<T = any>(events: string | string[], listener: Listener<T>, options?: Omit<IListenOptions, 'once'>): () => void;
+
+  /**
+   * Remove every listener registered for an event or pattern.
+   * 
+   * @param event - The event name or pattern, as it was registered
+   * @returns void
+   */
+  forget(event: string): void;
+
+  /**
+   * Check if any listener would receive an event.
+   * 
+   * @param event - The event name
+   * @returns boolean - True if at least one listener matches the event
+   */
+  hasListeners(event: string): boolean;
+
+  /**
+   * Get the listeners that would receive an event, in the order they are called.
+   * 
+   * @param event - The event name
+   * @returns IListenerRegistration[] - The matching listeners
+   */
+  getListeners(event: string): IListenerRegistration[];
+
+  /**
+   * Dispatch an event to its listeners, awaiting each listener in turn.
+   * Queued listeners are pushed to the queue instead of being called.
+   * 
+   * @template T - The event payload type
+   * @param event - The event name
+   * @param payload - Optional event payload
+   * @returns Promise<unknown[]> - The value returned by each listener that was called
+   */
+  dispatch<T = any>(event: string, payload?: T): Promise<unknown[]>;
+
+  /**
+   * Handle a queued job by calling the listener it was queued for.
+   * 
+   * @param job - The queued job
+   * @returns Promise<unknown> - The listener result
+   */
+  handleJob(job: IQueuedJob): Promise<unknown>;
+
+  /**
+   * Set the queue driver that receives jobs for queued listeners.
+   * 
+   * @param queue - The queue driver
+   * @returns this - The dispatcher for method chaining
+   */
+  setQueue(queue: IQueueDriver): this;
+
+  /**
+   * Get the queue driver that receives jobs for queued listeners.
+   * 
+   * @returns IQueueDriver - The queue driver
+   */
+  getQueue(): IQueueDriver;
+}
\ No newline at end of file
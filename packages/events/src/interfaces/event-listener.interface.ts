@@ -0,0 +1,184 @@
+/**
+ * Function listener invoked with the event payload and the dispatched event name.
+ * May return a promise; dispatch() awaits it before calling the next listener.
+ * Returning false stops the event from reaching lower priority listeners.
+ * 
+ * @template T - The event payload type
+ */
+export type ListenerFunction<T = any> = (payload: T, event: string) => unknown | Promise<unknown>;
+
+/**
+ * Interface for class-based event listeners.
+ * 
+ * @interface IEventListener
+ * @template T - The event payload type
+ */
+export interface IEventListener<T = any> {
+  /**
+   * Handle a dispatched event.
+   * Returning false stops the event from reaching lower priority listeners.
+   * 
+   * @param payload - The event payload
+   * @param event - The dispatched event name
+   * @returns unknown | Promise<unknown>
+   */
+  handle(payload: T, event: string): unknown | Promise<unknown>;
+}
+
+/**
+ * Interface for class-based listeners that run on the queue instead of during dispatch.
+ * Dispatching the event pushes a job that a QueueWorker hands to the listener later.
+ * 
+ * @interface IShouldQueue
+ * @template T - The event payload type
+ */
+export interface IShouldQueue<T = any> extends IEventListener<T> {
+  /**
+   * Indicates that the listener is queued.
+   * Always true for queued listeners.
+   */
+  readonly shouldQueue: true;
+
+  /**
+   * Number of attempts before the job is moved to the failed jobs.
+   */
+  tries?: number;
+
+  /**
+   * Delay in milliseconds before a failed attempt is retried, or one delay per retry.
+   */
+  backoff?: number | number[];
+}
+
+/**
+ * Constructor of a class-based event listener.
+ * 
+ * @interface IEventListenerConstructor
+ * @template T - The event payload type
+ */
+export interface IEventListenerConstructor<T = any> {
+  new (...args: any[]): IEventListener<T>;
+}
+
+/**
+ * Any listener accepted by the dispatcher: a function, a listener class, or the
+ * container identifier of a listener. Classes and identifiers are resolved from
+ * the container each time the event is dispatched.
+ * 
+ * @template T - The event payload type
+ */
+export type Listener<T = any> = ListenerFunction<T> | IEventListenerConstructor<T> | string | symbol;
+
+/**
+ * Options for registering a listener.
+ * 
+ * @interface IListenOptions
+ */
+export interface IListenOptions {
+  /**
+   * Listener priority; higher priorities are called first.
+   * Listeners with equal priority are called in registration order.
+   */
+  priority?: number;
+
+  /**
+   * Whether the listener is removed after it has been called once.
+   */
+  once?: boolean;
+
+  /**
+   * Whether the listener runs on the queue instead of during dispatch.
+   * Class-based listeners implementing IShouldQueue are queued regardless.
+   */
+  queue?: boolean;
+
+  /**
+   * Identifier of the listener in queued jobs, unique within the dispatcher.
+   * Defaults to the listener name, numbered when another listener has the same name,
+   * so listeners must be registered in the same order by every process working the queue.
+   * Required to queue anonymous functions.
+   */
+  id?: string;
+
+  /**
+   * Number of attempts for queued jobs before they are moved to the failed jobs.
+   */
+  tries?: number;
+
+  /**
+   * Delay in milliseconds before a failed queued job is retried, or one delay per retry.
+   */
+  backoff?: number | number[];
+}
+
+/**
+ * A listener registered with the dispatcher.
+ * 
+ * @interface IListenerRegistration
+ */
+export interface IListenerRegistration {
+  /**
+   * The event name or wildcard pattern the listener was registered for.
+   */
+  event: string;
+
+  /**
+   * The registered listener.
+   */
+  listener: Listener;
+
+  /**
+   * The listener priority.
+   */
+  priority: number;
+
+  /**
+   * Whether the listener is removed after it has been called once.
+   */
+  once: boolean;
+
+  /**
+   * Whether the listener runs on the queue instead of during dispatch.
+   */
+  queue: boolean;
+
+  /**
+   * Identifier stored in the jobs of the listener, for listeners that may be queued:
+   * queued functions, listener classes and container identifiers.
+   */
+  id?: string;
+
+  /**
+   * Number of attempts for queued jobs.
+   */
+  tries?: number;
+
+  /**
+   * Retry delay for queued jobs.
+   */
+  backoff?: number | number[];
+}
+
+/**
+ * Minimal container used to resolve class-based listeners.
+ * Satisfied by the framework and InversifyJS containers.
+ * 
+ * @interface IListenerContainer
+ */
+export interface IListenerContainer {
+  /**
+   * Resolve a service from the container.
+   * 
+   * @param identifier - The service identifier
+   * @returns T - The resolved service
+   */
+  get<T>(identifier: any): T;
+
+  /**
+   * Check if a service is bound in the container.
+   * 
+   * @param identifier - The service identifier
+   * @returns boolean - True if the service is bound
+   */
+  isBound(identifier: any): boolean;
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * Barrel export for all events interfaces.
+ * Provides centralized access to event-related type definitions.
+ */
+
+export * from './event-listener.interface';
+export * from './event-dispatcher.interface';
+export * from './queue-driver.interface';
\ No newline at end of file
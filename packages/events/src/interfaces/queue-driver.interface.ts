@@ -0,0 +1,181 @@
+/**
+ * A queued listener call waiting to be handled by a QueueWorker.
+ * Jobs are plain JSON-serializable objects so drivers can persist them;
+ * payloads are serialized when the job is pushed.
+ * 
+ * @interface IQueuedJob
+ */
+export interface IQueuedJob {
+  /**
+   * Unique job identifier.
+   */
+  id: string;
+
+  /**
+   * The dispatched event name.
+   */
+  event: string;
+
+  /**
+   * Identifier of the queued listener that handles the job, see IListenerRegistration.id.
+   */
+  listener: string;
+
+  /**
+   * The event payload.
+   */
+  payload: any;
+
+  /**
+   * Number of attempts made so far, including the current one once the job is reserved.
+   */
+  attempts: number;
+
+  /**
+   * Number of attempts before the job is moved to the failed jobs.
+   */
+  tries: number;
+
+  /**
+   * Delay in milliseconds before a failed attempt is retried, or one delay per retry.
+   */
+  backoff: number | number[];
+
+  /**
+   * Timestamp in milliseconds before which the job is not handed out.
+   */
+  availableAt: number;
+
+  /**
+   * Timestamp in milliseconds at which the job was pushed.
+   */
+  createdAt: number;
+
+  /**
+   * Timestamp in milliseconds at which a worker reserved the job, while it is being handled.
+   */
+  reservedAt?: number;
+}
+
+/**
+ * A job that failed its last attempt.
+ * 
+ * @interface IFailedJob
+ */
+export interface IFailedJob {
+  /**
+   * The job identifier.
+   */
+  id: string;
+
+  /**
+   * The failed job, as it was on its last attempt.
+   */
+  job: IQueuedJob;
+
+  /**
+   * Message of the error thrown by the last attempt.
+   */
+  error: string;
+
+  /**
+   * Timestamp in milliseconds at which the job failed.
+   */
+  failedAt: number;
+}
+
+/**
+ * Jobs and failed jobs held by a queue driver.
+ * 
+ * @interface IQueueState
+ */
+export interface IQueueState {
+  /**
+   * Queued jobs in push order, including reserved jobs.
+   */
+  jobs: IQueuedJob[];
+
+  /**
+   * Failed jobs in failure order.
+   */
+  failed: IFailedJob[];
+}
+
+/**
+ * Storage for queued jobs and failed jobs.
+ * 
+ * @interface IQueueDriver
+ */
+export interface IQueueDriver {
+  /**
+   * Add a job to the queue.
+   * 
+   * @param job - The job to add
+   * @returns Promise<void>
+   */
+  push(job: IQueuedJob): Promise<void>;
+
+  /**
+   * Reserve and return the oldest job that is available now, counting an attempt.
+   * The job stays queued until it is acknowledged, released or failed; a reservation
+   * left unsettled longer than the driver's retry-after time is handed out again.
+   * 
+   * @returns Promise<IQueuedJob | null> - The job, or null if no job is available
+   */
+  pop(): Promise<IQueuedJob | null>;
+
+  /**
+   * Remove a handled job from the queue.
+   * 
+   * @param job - The reserved job
+   * @returns Promise<void>
+   */
+  ack(job: IQueuedJob): Promise<void>;
+
+  /**
+   * Put a job back on the queue, available after a delay.
+   * 
+   * @param job - The job to release
+   * @param delay - Delay in milliseconds
+   * @returns Promise<void>
+   */
+  release(job: IQueuedJob, delay: number): Promise<void>;
+
+  /**
+   * Get the number of queued jobs, including reserved jobs and jobs that are not available yet.
+   * 
+   * @returns Promise<number> - The queue size
+   */
+  size(): Promise<number>;
+
+  /**
+   * Remove a job from the queue and add it to the failed jobs.
+   * 
+   * @param job - The failed job
+   * @param error - The error thrown by its last attempt
+   * @returns Promise<void>
+   */
+  fail(job: IQueuedJob, error: unknown): Promise<void>;
+
+  /**
+   * Get the failed jobs, oldest first.
+   * 
+   * @returns Promise<IFailedJob[]> - The failed jobs
+   */
+  getFailedJobs(): Promise<IFailedJob[]>;
+
+  /**
+   * Remove a failed job.
+   * 
+   * @param id - The job identifier
+   * @returns Promise<boolean> - True if the job was removed
+   */
+  forgetFailedJob(id: string): Promise<boolean>;
+
+  /**
+   * Remove every failed job.
+   * 
+   * @returns Promise<void>
+   */
+  flushFailedJobs(): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { IEventDispatcher } from './interfaces/event-dispatcher.interface';
+import { IQueuedJob } from './interfaces/queue-driver.interface';
+
+/**
+ * Worker handling the jobs queued by an event dispatcher.
+ * Jobs are acknowledged once handled. Failed attempts are retried after the job's
+ * backoff until its tries are used up, after which the job is moved to the failed
+ * jobs of the queue driver.
+ * 
+ * @class QueueWorker
+ */
+export class QueueWorker {
+  /**
+   * Timer of the running worker, see start().
+   */
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Indicates whether the worker is handling jobs.
+   */
+  private working = false;
+
+  /**
+   * Creates a new queue worker.
+   * 
+   * @param dispatcher - The dispatcher whose queue and listeners are used
+   */
+  constructor(private readonly dispatcher: IEventDispatcher) {}
+
+  /**
+   * Handle the next available job.
+   * 
+   * @returns Promise<boolean> - True if a job was handled, false if no job was available
+   */
+  async runNextJob(): Promise<boolean> {
+    const queue = this.dispatcher.getQueue();
+    const job = await queue.pop();
+
+    if (!job) {
+      return false;
+    }
+
+    // A job handed out again after its worker crashed may have used up its tries
+    if (job.attempts > job.tries) {
+      await queue.fail(job, new Error(`Job was attempted ${job.attempts - 1} times without being settled`));
+      return true;
+    }
+
+    try {
+      await this.dispatcher.handleJob(job);
+    } catch (error) {
+      if (job.attempts < job.tries) {
+        await queue.release(job, QueueWorker.getBackoff(job));
+      } else {
+        await queue.fail(job, error);
+      }
+
+      return true;
+    }
+
+    await queue.ack(job);
+    return true;
+  }
+
+  /**
+   * Handle jobs until no job is available.
+   * Jobs released with a backoff are left for a later run.
+   * 
+   * @returns Promise<number> - The number of jobs handled
+   */
+  async work(): Promise<number> {
+    let handled = 0;
+
+    this.working = true;
+    try {
+      while (await this.runNextJob()) {
+        handled++;
+      }
+    } finally {
+      this.working = false;
+    }
+
+    return handled;
+  }
+
+  /**
+   * Start handling jobs in the background, checking the queue at an interval.
+   * The timer does not keep the process alive.
+   * 
+   * @param interval - Milliseconds between queue checks
+   * @returns this - The worker for method chaining
+   */
+  start(interval: number = 1000): this {
+    if (this.timer) {
+      return this;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.working) {
+        this.work().catch(error => console.error('Error while working the event queue:', error));
+      }
+    }, interval);
+    this.timer.unref?.();
+
+    return this;
+  }
+
+  /**
+   * Stop handling jobs in the background.
+   * 
+   * @returns void
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Push a failed job back on the queue with its attempts reset.
+   * 
+   * @param id - The failed job identifier
+   * @returns Promise<void>
+   * @throws Error if no failed job has the identifier
+   */
+  async retry(id: string): Promise<void> {
+    const queue = this.dispatcher.getQueue();
+    const failed = (await queue.getFailedJobs()).find(failedJob => failedJob.id === id);
+
+    if (!failed) {
+      throw new Error(`Failed to retry job '${id}': no failed job has this id`);
+    }
+
+    await queue.forgetFailedJob(id);
+    await queue.push({ ...failed.job, attempts: 0, availableAt: Date.now() });
+  }
+
+  /**
+   * Get the delay before the next attempt of a job.
+   * 
+   * @private
+   * @static
+   * @param job - The job that failed an attempt
+   * @returns number - Delay in milliseconds
+   */
+  private static getBackoff(job: IQueuedJob): number {
+    if (!Array.isArray(job.backoff)) {
+      return job.backoff;
+    }
+
+    return job.backoff[Math.min(job.attempts, job.backoff.length) - 1] ?? 0;
+  }
+
+  /**
+   * Create a new queue worker instance.
+   * Factory method following the framework's .make() pattern.
+   * 
+   * @static
+   * @param dispatcher - The dispatcher whose queue and listeners are used
+   * @returns QueueWorker - A new queue worker
+   */
+  static make(dispatcher: IEventDispatcher): QueueWorker {
+    return new QueueWorker(dispatcher);
+  }
+}
\ No newline at end of file
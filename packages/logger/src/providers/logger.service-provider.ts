@@ -100,7 +100,7 @@ export class LoggerServiceProvider extends BaseServiceProvider {
 }
 
 /**
- * Singleton instance of the logger service provider.
- * Provides convenient access to the service provider throughout the application.
+ * The logger service provider, ready to pass to Application.register().
+ * The application instantiates it with itself, e.g. `app.register(loggerServiceProvider)`.
  */
-export const loggerServiceProvider = new LoggerServiceProvider(null as any);
\ No newline at end of file
+export const loggerServiceProvider = LoggerServiceProvider;
\ No newline at end of file
@@ -86,7 +86,7 @@ export class MetadataServiceProvider extends BaseServiceProvider {
 }
 
 /**
- * Singleton instance of the metadata service provider.
- * Provides convenient access to the service provider throughout the application.
+ * The metadata service provider, ready to pass to Application.register().
+ * The application instantiates it with itself, e.g. `app.register(metadataServiceProvider)`.
  */
-export const metadataServiceProvider = new MetadataServiceProvider(null as any);
\ No newline at end of file
+export const metadataServiceProvider = MetadataServiceProvider;
\ No newline at end of file
@@ -92,7 +92,7 @@ export class MiddlewareServiceProvider extends BaseServiceProvider {
 }
 
 /**
- * Singleton instance of the middleware service provider.
- * Provides convenient access to the service provider throughout the application.
+ * The middleware service provider, ready to pass to Application.register().
+ * The application instantiates it with itself, e.g. `app.register(middlewareServiceProvider)`.
  */
-export const middlewareServiceProvider = new MiddlewareServiceProvider(null as any);
\ No newline at end of file
+export const middlewareServiceProvider = MiddlewareServiceProvider;
\ No newline at end of file